@@ -1,55 +1,142 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TeacherView } from './components/TeacherView';
 import { StudentView } from './components/StudentView';
-import type { Student } from './types';
+import type { AttendanceStatus, CheckInProof, Roster, RosterStudent, Session, Student } from './types';
+import { generateSessionId, generateSigningKey, parseToken, signTeacherWrite } from './qrToken';
+import { pickActiveRoster, studentEmail } from './roster';
+import { DEFAULT_SHEET_LAYOUT, parseSheetLayout, serializeSheetLayout, validateSheetLayout } from './sheetLayout';
+import type { SheetLayout } from './sheetLayout';
+import { STATUS_LABELS, lateThreshold, scanStatus } from './attendanceStatus';
+import { BatchUnsupportedError, DEFAULT_BACKEND_KIND, DEFAULT_SCRIPT_URL, createBackend, isBackendKind, locationFields } from './backends';
+import type { BackendKind, RecordEvent, RemoteRecord, SessionRecords } from './backends';
+import { classifySyncError, deleteTask, errorMessage, newTaskId, resubmitDeadLetter, sessionStatusTask, taskKind, toDeadLetter, withFailure } from './syncQueue';
+import type { DeadLetter, SyncTask } from './syncQueue';
+import { DEFAULT_SYNC_CEILINGS, INITIAL_CONCURRENCY, THROUGHPUT_WINDOW_MS, afterCongestion, afterSuccess, clampCeiling, isCongestionError, recordsPerMinute } from './syncConcurrency';
+import type { Concurrency, SyncStats } from './syncConcurrency';
+import { addToOutbox, isOutboxAvailable, newOutboxEntry, readOutbox, removeFromOutbox, scheduleOutboxFlush } from './outbox';
+import type { OutboxEntry } from './outbox';
+import { collectionChange, idSetChange, saveChanges, saveSetting } from './storage';
+import type { StoreChange, StoredState } from './storage';
+import { DEFAULT_AUDIT_ACTOR, auditFields, newAuditEntry } from './audit';
+import type { AuditAction, AuditEntry, AuditSource } from './audit';
+import { applicableChanges, invertChanges, pushCommand } from './commandHistory';
+import type { BulkCommand, RecordChange } from './commandHistory';
+import { mergeRecord, updatedAtOf, withEdit, withoutConflict } from './recordMerge';
+import { openSecrets, sealSecrets } from './teacherLock';
+import type { LockedSecrets, TeacherLock, TeacherSecrets } from './teacherLock';
+import { PinDialog } from './components/PinDialog';
 
 type View = 'teacher' | 'student';
 
-const STORAGE_KEY = 'attendance-storage-standard-v1';
-const DELETED_IDS_KEY = 'attendance-deleted-ids-v1';
-const SCRIPT_URL_KEY = 'attendance-script-url-v21';
-const SYNC_QUEUE_KEY = 'attendance-sync-queue-v2';
+// Deleted records are tracked per session so that hiding a student in one
+// lecture does not hide them in every other one.
+const deletedKey = (sessionId: string, studentId: string) => `${sessionId}:${studentId.toUpperCase()}`;
 
-interface SyncTask {
-  id: string;
-  data: Record<string, string>;
-  timestamp: number;
+const taskKey = (task: SyncTask) => deletedKey(task.data.sessionId || '', task.data.studentId || '');
+
+const SYNC_BATCH_SIZE = 50;
+
+// Where a record change came from, with the reason typed into its confirm dialog.
+interface ChangeOrigin {
+  source: AuditSource;
+  reason?: string;
+}
+
+const saveOrWarn = (what: string, changes: (StoreChange | null)[]) =>
+  saveChanges(changes).catch(err => console.warn(`Could not save ${what}:`, err));
+
+interface AppProps {
+  // Loaded from IndexedDB before the first render (see index.tsx).
+  stored: StoredState;
+  // Set once the teacher's PIN unlocked the dashboard (see TeacherLogin); unset on students' phones.
+  teacher?: { lock: TeacherLock, secrets: TeacherSecrets };
 }
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ stored, teacher }) => {
   const urlParams = new URLSearchParams(window.location.search);
   const token = urlParams.get('t');
+  // Signed into the token, so a student cannot move or drop it.
+  const [linkGeofence] = useState(() => token ? parseToken(token)?.geofence : undefined);
   const initialView: View = token ? 'student' : 'teacher';
 
   const [view, setView] = useState<View>(initialView);
   const [isKioskMode, setIsKioskMode] = useState(false);
-  const [attendanceList, setAttendanceList] = useState<Student[]>([]);
+  const [kioskExitPrompt, setKioskExitPrompt] = useState(false);
+  const [kioskNoPin, setKioskNoPin] = useState(false);
+  const [attendanceList, setAttendanceList] = useState<Student[]>(stored.records);
   
-  const [locallyDeletedIds, setLocallyDeletedIds] = useState<Set<string>>(() => {
-    const saved = localStorage.getItem(DELETED_IDS_KEY);
-    try {
-        return saved ? new Set(JSON.parse(saved)) : new Set();
-    } catch (e) {
-        return new Set();
-    }
-  });
+  const [locallyDeletedIds, setLocallyDeletedIds] = useState<Set<string>>(() => new Set(stored.deletedIds));
   
+  // A non-default backend travels in the QR link (b, u) so students' phones reach it too.
+  const [backendKind, setBackendKind] = useState<BackendKind>(() => {
+    const fromLink = urlParams.get('b');
+    if (isBackendKind(fromLink)) return fromLink;
+    const saved = stored.settings.backendKind;
+    return isBackendKind(saved) ? saved : DEFAULT_BACKEND_KIND;
+  });
+
   const [scriptUrl, setScriptUrl] = useState<string>(() => {
-    const saved = localStorage.getItem(SCRIPT_URL_KEY);
+    const saved = urlParams.get('u') || teacher?.secrets.scriptUrl;
     // Use the latest URL provided by the user as default
-    return saved || 'https://script.google.com/macros/s/AKfycbxhMDImDgH34jMpCuCKTl_iL3xxnZf9OzjXORqnULDOg02C64p3JArfT8xH4oX7RsmS/exec';
+    return saved || DEFAULT_SCRIPT_URL;
   });
 
-  const [syncQueue, setSyncQueue] = useState<SyncTask[]>(() => {
-      try {
-          const saved = localStorage.getItem(SYNC_QUEUE_KEY);
-          return saved ? JSON.parse(saved) : [];
-      } catch (e) {
-          return [];
-      }
+  // Sent by the dashboard on the self-hosted server's teacher routes.
+  const [teacherToken, setTeacherToken] = useState<string>(teacher?.secrets.teacherToken || '');
+
+  const backend = useMemo(() => createBackend(backendKind, scriptUrl, teacherToken), [backendKind, scriptUrl, teacherToken]);
+
+  // Only the teacher's device holds the signing key; students never need one.
+  const [signingKey, setSigningKey] = useState<string>(() => {
+    const saved = teacher?.secrets.signingKey;
+    return saved || (initialView === 'teacher' ? generateSigningKey() : '');
+  });
+
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout>(() => {
+    try {
+        const saved = stored.settings.sheetLayout;
+        const layout = saved ? parseSheetLayout(saved) : DEFAULT_SHEET_LAYOUT;
+        return validateSheetLayout(layout).length === 0 ? layout : DEFAULT_SHEET_LAYOUT;
+    } catch (e) {
+        return DEFAULT_SHEET_LAYOUT;
+    }
   });
-  const [isSyncing, setIsSyncing] = useState(false);
+
+  const [sessions, setSessions] = useState<Session[]>(stored.sessions);
+  const [activeSessionId, setActiveSessionId] = useState<string>(stored.settings.activeSessionId || '');
+  const activeSession = sessions.find(s => s.id === activeSessionId) || null;
+
+  const [rosters, setRosters] = useState<Roster[]>(stored.rosters);
+  const [activeRosterId, setActiveRosterId] = useState<string>(stored.settings.activeRosterId || '');
+  const activeRoster = pickActiveRoster(rosters, activeRosterId, activeSession?.courseCode);
+  // Students' phones have no local rosters; they use the class list from the sheet.
+  const [remoteRoster, setRemoteRoster] = useState<RosterStudent[]>([]);
+
+  const [syncQueue, setSyncQueue] = useState<SyncTask[]>(stored.syncQueue);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>(stored.deadLetters);
+  // Check-ins handed to the service worker (student phones only).
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [openedAt] = useState(() => Date.now());
+  const batchUnsupportedRef = useRef(false);
+  // Task ids a worker is sending right now, so no two workers send the same record.
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const workersRef = useRef(0);
+  const concurrencyRef = useRef<Concurrency>(INITIAL_CONCURRENCY);
+  const syncedAtRef = useRef<number[]>([]);
+  const [syncStats, setSyncStats] = useState<SyncStats>({ inFlight: 0, limit: INITIAL_CONCURRENCY.limit, perMinute: 0 });
+  // Per-backend overrides of the worker ceiling.
+  const [syncCeilings, setSyncCeilings] = useState<Partial<Record<BackendKind, number>>>(stored.settings.syncCeilings || {});
+  const syncCeiling = clampCeiling(syncCeilings[backendKind] || DEFAULT_SYNC_CEILINGS[backendKind]);
+
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(stored.audit);
+  const [auditActor, setAuditActor] = useState<string>(stored.settings.auditActor || DEFAULT_AUDIT_ACTOR);
+  // Blank names would make entries unattributable.
+  const actorName = auditActor.trim() || DEFAULT_AUDIT_ACTOR;
+
+  // Bulk actions this visit, newest last.
+  const [undoStack, setUndoStack] = useState<BulkCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<BulkCommand[]>([]);
 
   // Prevent closing tab if data hasn't synced
   useEffect(() => {
@@ -64,84 +151,256 @@ const App: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [syncQueue]);
 
-  useEffect(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        if (Array.isArray(parsed)) setAttendanceList(parsed);
-      } catch (e) {
-        console.error('Failed to parse attendance data', e);
-      }
-    }
-  }, []);
+  // What IndexedDB holds, so each save writes only what changed since.
+  const savedRef = useRef({
+    records: stored.records,
+    deletedIds: locallyDeletedIds,
+    sessions: stored.sessions,
+    rosters: stored.rosters,
+    syncQueue: stored.syncQueue,
+    deadLetters: stored.deadLetters,
+    audit: stored.audit,
+  });
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(attendanceList));
+    const change = collectionChange('records', savedRef.current.records, attendanceList);
+    savedRef.current.records = attendanceList;
+    saveOrWarn('records', [change]);
   }, [attendanceList]);
 
   useEffect(() => {
-    localStorage.setItem(DELETED_IDS_KEY, JSON.stringify(Array.from(locallyDeletedIds)));
+    const change = idSetChange('deletedIds', savedRef.current.deletedIds, locallyDeletedIds);
+    savedRef.current.deletedIds = locallyDeletedIds;
+    saveOrWarn('deleted records', [change]);
   }, [locallyDeletedIds]);
+
+  useEffect(() => {
+    const change = collectionChange('sessions', savedRef.current.sessions, sessions);
+    savedRef.current.sessions = sessions;
+    saveOrWarn('sessions', [change]);
+  }, [sessions]);
+
+  // The backends refuse QR check-ins for closed sessions, so every close and
+  // reopen reaches them, whether it came from a button, a finalize or an undo.
+  const sessionStatusRef = useRef(new Map(stored.sessions.map(s => [s.id, s.status])));
+  useEffect(() => {
+    const known = sessionStatusRef.current;
+    const changed = sessions.filter(s => known.get(s.id) !== s.status && (known.has(s.id) || s.status === 'closed'));
+    sessionStatusRef.current = new Map(sessions.map(s => [s.id, s.status]));
+    if (changed.length === 0 || !backend.isConfigured) return;
+    const now = Date.now();
+    setSyncQueue(prev => [...prev, ...changed.map(s => sessionStatusTask(s.id, s.status, now))]);
+  }, [sessions, backend]);
+
+  useEffect(() => {
+    const change = collectionChange('rosters', savedRef.current.rosters, rosters);
+    savedRef.current.rosters = rosters;
+    saveOrWarn('rosters', [change]);
+  }, [rosters]);
+
+  // One transaction, so a task moved to the dead letters is never in both or neither.
+  useEffect(() => {
+    const changes = [
+      collectionChange('syncQueue', savedRef.current.syncQueue, syncQueue),
+      collectionChange('deadLetters', savedRef.current.deadLetters, deadLetters),
+    ];
+    savedRef.current.syncQueue = syncQueue;
+    savedRef.current.deadLetters = deadLetters;
+    saveOrWarn('the sync queue', changes);
+  }, [syncQueue, deadLetters]);
+
+  useEffect(() => {
+    const change = collectionChange('audit', savedRef.current.audit, auditLog);
+    savedRef.current.audit = auditLog;
+    saveOrWarn('the audit log', [change]);
+  }, [auditLog]);
   
+  // The secrets are only ever saved encrypted with the teacher's PIN.
   useEffect(() => {
-    localStorage.setItem(SCRIPT_URL_KEY, scriptUrl);
-  }, [scriptUrl]);
+    if (!teacher) return;
+    let current = true;
+    sealSecrets(teacher.lock, { scriptUrl, signingKey, teacherToken }).then(locked => {
+        if (current) saveSetting('lockedSecrets', locked);
+    }, err => console.warn('Could not encrypt settings:', err));
+    return () => { current = false; };
+  }, [teacher, scriptUrl, signingKey, teacherToken]);
 
   useEffect(() => {
-    localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(syncQueue));
-  }, [syncQueue]);
+    saveSetting('backendKind', backendKind);
+  }, [backendKind]);
+
 
-  // --- IMPROVED SYNC PROCESSOR FOR HIGH TRAFFIC ---
   useEffect(() => {
-    if (syncQueue.length === 0 || isSyncing) return;
-    if (!scriptUrl || !scriptUrl.startsWith('http')) return;
+    saveSetting('sheetLayout', serializeSheetLayout(sheetLayout));
+  }, [sheetLayout]);
 
-    let active = true;
+  useEffect(() => {
+    saveSetting('activeSessionId', activeSessionId);
+  }, [activeSessionId]);
 
-    const processNext = async () => {
-        setIsSyncing(true);
-        const task = syncQueue[0];
+  useEffect(() => {
+    saveSetting('activeRosterId', activeRosterId);
+  }, [activeRosterId]);
 
-        try {
-            const formData = new URLSearchParams();
-            Object.entries(task.data).forEach(([k, v]) => formData.append(k, String(v)));
-
-            // Fetch with a timeout to prevent hanging connections
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 20000); // Increased timeout for server load
-
-            const response = await fetch(scriptUrl.trim(), {
-                method: 'POST',
-                body: formData,
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                signal: controller.signal
-            });
+  useEffect(() => {
+    if (view !== 'student' || isKioskMode || !backend.isConfigured) return;
+    let isMounted = true;
+    backend.fetchRoster()
+      .then(roster => { if (isMounted) setRemoteRoster(roster); })
+      .catch(e => console.warn('Roster fetch failed:', e));
+    return () => { isMounted = false; };
+  }, [view, isKioskMode, backend]);
 
-            clearTimeout(timeoutId);
+  useEffect(() => {
+    saveSetting('syncCeilings', syncCeilings);
+  }, [syncCeilings]);
 
-            if (!response.ok) {
-                // If 429 Too Many Requests or 500, we throw to trigger retry
-                throw new Error(`Server status: ${response.status}`);
-            }
+  useEffect(() => {
+    saveSetting('auditActor', auditActor);
+  }, [auditActor]);
 
-            const text = await response.text();
-            let result;
-            try {
-                result = JSON.parse(text);
-            } catch(e) {
-                throw new Error("Invalid server response format");
-            }
+  const handleSyncCeilingChange = useCallback((ceiling: number) => {
+    setSyncCeilings(prev => ({ ...prev, [backendKind]: clampCeiling(ceiling) }));
+  }, [backendKind]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || typeof indexedDB === 'undefined') return;
+    const refresh = () => readOutbox().then(setOutbox).catch(err => console.warn('Outbox unavailable:', err));
+    const onMessage = (e: MessageEvent) => { if (e.data?.type === 'outbox-changed') refresh(); };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    readOutbox().then(async entries => {
+        // Waiting check-ins from a closed tab get another try now. Refusals stay
+        // until the student dismisses them, as they may not have seen them yet.
+        setOutbox(entries);
+        if (entries.some(e => !e.failedAt)) await scheduleOutboxFlush();
+    }).catch(err => console.warn('Outbox unavailable:', err));
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
 
-            if (result.result !== 'success') {
-                throw new Error(result.message || 'Script rejected data');
+  // Check-ins from before this visit that the backend refused, e.g. because the
+  // phone only got a connection after the token had expired.
+  const earlierRejections = useMemo(() => outbox.filter(e => e.failedAt && e.createdAt < openedAt), [outbox, openedAt]);
+
+  const handleDismissEarlierRejections = useCallback(() => {
+    const ids = new Set(earlierRejections.map(e => e.id));
+    setOutbox(prev => prev.filter(e => !ids.has(e.id)));
+    Promise.all(Array.from(ids, removeFromOutbox)).catch(err => console.warn('Outbox unavailable:', err));
+  }, [earlierRejections]);
+
+  // Without Background Sync nothing retries on its own, so keep asking while the page is open.
+  const outboxWaiting = outbox.some(e => !e.failedAt);
+  useEffect(() => {
+    if (!outboxWaiting || 'SyncManager' in window) return;
+    const timer = setTimeout(() => { scheduleOutboxFlush(); }, 5000 + Math.random() * 15000);
+    return () => clearTimeout(timer);
+  }, [outbox, outboxWaiting]);
+
+  const refreshSyncStats = useCallback(() => {
+    const now = Date.now();
+    syncedAtRef.current = syncedAtRef.current.filter(t => now - t < THROUGHPUT_WINDOW_MS);
+    const next = { inFlight: workersRef.current, limit: concurrencyRef.current.limit, perMinute: recordsPerMinute(syncedAtRef.current, now) };
+    setSyncStats(prev => prev.inFlight === next.inFlight && prev.limit === next.limit && prev.perMinute === next.perMinute ? prev : next);
+  }, []);
+
+  useEffect(() => {
+    batchUnsupportedRef.current = false;
+    concurrencyRef.current = INITIAL_CONCURRENCY;
+  }, [backend]);
+
+  // --- BATCHED SYNC WORKERS FOR HIGH TRAFFIC ---
+  // Up to syncStats.limit workers run at once, each sending one batch.
+  useEffect(() => {
+    if (syncQueue.length === 0 || !backend.isConfigured) return;
+
+    // Once a deletion reached the backend its tombstone is kept there, so the
+    // local one can go and a later scan from another device shows up again.
+    const settleDeletes = (synced: SyncTask[]) => {
+        const keys = new Set(synced.filter(t => taskKind(t) === 'delete').map(taskKey));
+        if (keys.size === 0) return;
+        setLocallyDeletedIds(prev => Array.from(keys).some(k => prev.has(k)) ? new Set(Array.from(prev).filter(k => !keys.has(k))) : prev);
+    };
+
+    const runWorker = async (batch: SyncTask[]) => {
+        const head = batch[0];
+        // Any answer from the backend, even a rejection, means it kept up.
+        const responded = (synced: number) => {
+            const now = Date.now();
+            for (let i = 0; i < synced; i++) syncedAtRef.current.push(now);
+            concurrencyRef.current = afterSuccess(concurrencyRef.current, syncCeiling);
+        };
+
+        try {
+            const payloads = await Promise.all(batch.map(async task => {
+                const payload = { ...task.data };
+                // Phones' scans carry their QR token. Everything else comes from the
+                // teacher's device, and only a teacher signature lets the backend
+                // accept deletions or statuses other than present and late.
+                if (!payload.token && signingKey) {
+                    // The Apps Script files a session under the day it started.
+                    const startTime = sessions.find(s => s.id === payload.sessionId)?.startTime;
+                    if (startTime) payload.sessionStart = String(startTime);
+                    payload.teacherSig = await signTeacherWrite(signingKey, payload);
+                }
+                return payload;
+            }));
+
+            if (batch.length === 1) {
+                try {
+                    await backend.submit(payloads[0]);
+                } catch (err) {
+                    const message = errorMessage(err);
+                    if (classifySyncError(message) !== 'permanent') throw err;
+                    // Retrying cannot fix this one; park it for the teacher to look at.
+                    console.warn(`Sync rejected ${head.id} for good:`, message);
+                    responded(0);
+                    setSyncQueue(prev => prev.filter(t => t.id !== head.id));
+                    setDeadLetters(prev => [...prev, toDeadLetter(head, message)]);
+                    return;
+                }
+                // SUCCESS
+                responded(1);
+                setSyncQueue(prev => prev.filter(t => t.id !== head.id));
+                settleDeletes([head]);
+                return;
             }
 
-            // SUCCESS
-            if (active) setSyncQueue(prev => prev.filter(t => t.id !== task.id));
+            let results;
+            try {
+                results = await backend.submitBatch(payloads.map((payload, idx) => ({ ...payload, taskId: batch[idx].id })));
+            } catch (err) {
+                if (err instanceof BatchUnsupportedError) batchUnsupportedRef.current = true;
+                throw err;
+            }
 
+            const succeeded = new Set<string>();
+            const rejected = new Map<string, string>();
+            results.forEach(r => {
+                if (r.ok) succeeded.add(r.id);
+                else {
+                    console.warn(`Sync rejected ${r.id}:`, r.message);
+                    rejected.set(r.id, r.message || 'Rejected by backend');
+                }
+            });
+            responded(succeeded.size);
+            settleDeletes(batch.filter(t => succeeded.has(t.id)));
+            const now = Date.now();
+            const dead = batch.filter(t => rejected.has(t.id) && classifySyncError(rejected.get(t.id)!) === 'permanent');
+            const deadIds = new Set(dead.map(t => t.id));
+            const batchIds = new Set(batch.map(t => t.id));
+            setSyncQueue(prev => prev
+                .filter(t => !succeeded.has(t.id) && !deadIds.has(t.id))
+                .map(t => batchIds.has(t.id) ? { ...withFailure(t, rejected.get(t.id) || 'Missing from batch results', now), isolated: true } : t));
+            if (dead.length > 0) setDeadLetters(prev => [...prev, ...dead.map(t => toDeadLetter(t, rejected.get(t.id)!, now))]);
         } catch (err) {
             console.warn("Sync failed, retrying with exponential jitter...", err);
+            const message = errorMessage(err);
+            const now = Date.now();
+            const batchIds = new Set(batch.map(t => t.id));
+            setSyncQueue(prev => prev.map(t => batchIds.has(t.id) ? withFailure(t, message, now) : t));
+            // The backend is struggling: halve the workers. Plain network
+            // errors (offline) leave the pool as it is.
+            if (isCongestionError(err)) concurrencyRef.current = afterCongestion(concurrencyRef.current);
+            refreshSyncStats();
             
             // CRITICAL FOR 230 STUDENTS:
             // Google Apps Script can handle ~30 concurrent requests.
@@ -151,116 +410,403 @@ const App: React.FC = () => {
             
             await new Promise(resolve => setTimeout(resolve, jitter));
         } finally {
-            if (active) setIsSyncing(false);
+            batch.forEach(t => inFlightRef.current.delete(t.id));
+            workersRef.current--;
+            // Re-runs this effect, which hands the free slot to the next batch.
+            refreshSyncStats();
         }
     };
 
-    processNext();
-    return () => { active = false; };
-  }, [syncQueue, isSyncing, scriptUrl]);
+    // Records that failed inside a batch are sent on their own so one bad
+    // record cannot hold back the rest. Tasks for a record already in flight
+    // wait for it, so a deletion and its undo reach the backend in order.
+    while (workersRef.current < Math.min(concurrencyRef.current.limit, syncCeiling)) {
+        const busy = new Set(syncQueue.filter(t => inFlightRef.current.has(t.id)).map(taskKey));
+        const waiting = syncQueue.filter(t => !inFlightRef.current.has(t.id) && !busy.has(taskKey(t)));
+        if (waiting.length === 0) break;
+        const batch = waiting[0].isolated || batchUnsupportedRef.current
+            ? [waiting[0]]
+            : waiting.filter(t => !t.isolated).slice(0, SYNC_BATCH_SIZE);
+        batch.forEach(t => inFlightRef.current.add(t.id));
+        workersRef.current++;
+        runWorker(batch);
+    }
+    refreshSyncStats();
+  }, [syncQueue, syncStats, backend, signingKey, sessions, syncCeiling, refreshSyncStats]);
+
 
+  // The sheet only exposes today's column, so remote rows belong to the open session.
+  const [isLive, setIsLive] = useState(false);
+  const pollSessionId = activeSession && activeSession.status === 'open' ? activeSession.id : '';
 
+  // Backends that can stream push changes as they happen; polling covers the
+  // rest, and covers streaming backends whenever the stream is down.
   useEffect(() => {
-    if (!scriptUrl || !scriptUrl.startsWith('http') || view === 'student') return;
+    if (!backend.isConfigured || view === 'student' || !pollSessionId) return;
     let isMounted = true;
+    let isLive = false;
+
+    const toStudent = (item: RemoteRecord, existing?: Student): Student => ({
+        name: item.name,
+        studentId: item.studentId,
+        email: item.email || '',
+        timestamp: existing ? existing.timestamp : (item.timestamp || Date.now()),
+        status: item.status,
+        sessionId: pollSessionId,
+        ...(item.updatedAt ? { updatedAt: item.updatedAt, baseUpdatedAt: item.updatedAt } : {}),
+        deviceId: item.deviceId || existing?.deviceId,
+        deviceFingerprint: item.deviceFingerprint || existing?.deviceFingerprint,
+        location: item.location || existing?.location,
+        locationFlag: item.locationFlag || existing?.locationFlag,
+    });
+
+    // Tombstones drop records another device deleted; a record checked in here
+    // after the deletion is newer and stays.
+    const mergeRecords = ({ records, tombstones }: SessionRecords) => {
+        setAttendanceList(prevList => {
+            const otherSessions = prevList.filter(s => s.sessionId !== pollSessionId);
+            const mergedMap = new Map<string, Student>();
+            prevList.forEach(s => { if (s.studentId && s.sessionId === pollSessionId) mergedMap.set(s.studentId.toUpperCase(), s); });
+            tombstones.forEach(t => {
+                const local = mergedMap.get(t.studentId.toUpperCase());
+                if (local && updatedAtOf(local) <= t.deletedAt) mergedMap.delete(t.studentId.toUpperCase());
+            });
+            records.forEach(item => {
+                if (locallyDeletedIds.has(deletedKey(pollSessionId, item.studentId))) return;
+                const local = mergedMap.get(item.studentId);
+                mergedMap.set(item.studentId, mergeRecord(local, toStudent(item, local)));
+            });
+            return [...Array.from(mergedMap.values()), ...otherSessions];
+        });
+    };
+
+    const handleEvent = (event: RecordEvent) => {
+        if (!isMounted) return;
+        if (event.type === 'snapshot') { mergeRecords(event); return; }
+        if (event.type === 'upsert') {
+            const item = event.record;
+            if (locallyDeletedIds.has(deletedKey(pollSessionId, item.studentId))) return;
+            setAttendanceList(prevList => {
+                const existing = prevList.find(s => s.sessionId === pollSessionId && s.studentId === item.studentId);
+                const updated = mergeRecord(existing, toStudent(item, existing));
+                return existing ? prevList.map(s => s === existing ? updated : s) : [updated, ...prevList];
+            });
+            return;
+        }
+        setAttendanceList(prevList => prevList.filter(s => !(s.sessionId === pollSessionId && s.studentId === event.studentId)));
+    };
+
     const fetchData = async () => {
+      if (isLive) return;
       try {
-        const response = await fetch(`${scriptUrl.trim()}?action=read&_=${Date.now()}`);
-        if (!response.ok) return;
-        const data = await response.json();
-        if (isMounted && Array.isArray(data)) {
-           setAttendanceList(prevList => {
-               const mergedMap = new Map<string, Student>();
-               prevList.forEach(s => { if (s.studentId) mergedMap.set(s.studentId.toUpperCase(), s); });
-               (data as any[]).forEach((item: any) => {
-                   if (!item.studentId) return;
-                   const normalizedId = item.studentId.toUpperCase();
-                   if (locallyDeletedIds.has(normalizedId)) return;
-                   const existing = mergedMap.get(normalizedId);
-                   mergedMap.set(normalizedId, {
-                       name: item.name ? item.name.toUpperCase() : '',
-                       studentId: normalizedId,
-                       email: item.email ? item.email.toUpperCase() : '',
-                       timestamp: existing ? existing.timestamp : (item.timestamp || Date.now()),
-                       status: item.status || 'P',
-                   });
-               });
-               return Array.from(mergedMap.values());
-           });
-        }
+        const data = await backend.fetchSession(pollSessionId);
+        if (isMounted) mergeRecords(data);
       } catch (e) { console.warn('Polling failed:', e); }
     };
+
+    const unsubscribe = backend.subscribe?.(pollSessionId, handleEvent, live => {
+        isLive = live;
+        if (isMounted) setIsLive(live);
+    });
     const interval = setInterval(fetchData, 6000);
     fetchData(); 
-    return () => { isMounted = false; clearInterval(interval); };
-  }, [scriptUrl, view, locallyDeletedIds]);
+    return () => { isMounted = false; clearInterval(interval); unsubscribe?.(); setIsLive(false); };
+  }, [backend, view, locallyDeletedIds, pollSessionId]);
 
-  const handleMarkAttendance = useCallback((name: string, studentId: string, email: string, status: 'P' | 'A' = 'P'): { success: boolean, message: string } => {
+  const handleVerifyToken = useCallback(async (qrToken: string, code?: string) => {
+    if (!backend.isConfigured) return null;
+    return backend.verifyToken(qrToken, code);
+  }, [backend]);
+
+  const handleMarkAttendance = useCallback((name: string, studentId: string, email: string, status: AttendanceStatus = 'P', qrToken?: string, proof: CheckInProof = {}, origin: ChangeOrigin = { source: 'manual' }): { success: boolean, message: string } => {
     const normalizedId = studentId.toUpperCase();
+    // Scans belong to the session printed in their QR token; teacher entries to the active one.
+    const sessionId = qrToken ? parseToken(qrToken)?.sessionId : activeSessionId;
+    if (!sessionId) return { success: false, message: 'No class session is active. Start a session first.' };
+
+    const existing = attendanceList.find(s => s.sessionId === sessionId && s.studentId.toUpperCase() === normalizedId);
+    const selfCheckIn = origin.source === 'scan' || origin.source === 'kiosk';
+    const audit = newAuditEntry({
+        sessionId,
+        action: selfCheckIn ? 'check-in' : existing ? 'status' : 'add',
+        studentId: normalizedId,
+        ...(existing ? { oldStatus: existing.status } : {}),
+        newStatus: status,
+        source: origin.source,
+        actor: selfCheckIn ? normalizedId : actorName,
+        ...(origin.reason ? { reason: origin.reason } : {}),
+    });
+    // A phone's scans are logged by the backend; this device only logs its own changes.
+    if (!qrToken) setAuditLog(prev => [...prev, audit]);
+
+    const key = deletedKey(sessionId, normalizedId);
     setLocallyDeletedIds(prev => {
-        if (prev.has(normalizedId)) {
+        if (prev.has(key)) {
             const next = new Set(prev);
-            next.delete(normalizedId);
+            next.delete(key);
             return next;
         }
         return prev;
     });
 
-    const newStudent: Student = { name, studentId: normalizedId, email, timestamp: Date.now(), status };
+    const { location, code, devicePublicKey, deviceSig, ...deviceFields } = proof;
+    const now = Date.now();
+    const newStudent: Student = {
+        name, studentId: normalizedId, email, timestamp: now, status, sessionId, updatedAt: now,
+        ...(existing?.baseUpdatedAt ? { baseUpdatedAt: existing.baseUpdatedAt } : {}),
+        ...deviceFields, ...(location ? { location } : {}),
+    };
     setAttendanceList(prevList => {
-        const filtered = prevList.filter(s => s.studentId.toUpperCase() !== normalizedId);
+        const filtered = prevList.filter(s => s.sessionId !== sessionId || s.studentId.toUpperCase() !== normalizedId);
         return [newStudent, ...filtered];
     });
     
-    if (scriptUrl && scriptUrl.startsWith('http')) {
+    if (backend.isConfigured) {
         const task: SyncTask = {
-            id: Math.random().toString(36).substring(2, 9) + Date.now().toString(),
-            data: { studentId: normalizedId, name, email, status },
-            timestamp: Date.now()
+            id: newTaskId(),
+            data: {
+                studentId: normalizedId, name, email, status, sessionId,
+                ...(deviceFields.deviceId ? { deviceId: deviceFields.deviceId } : {}),
+                ...(deviceFields.deviceFingerprint ? { deviceFingerprint: deviceFields.deviceFingerprint } : {}),
+                ...(devicePublicKey && deviceSig ? { devicePublicKey, deviceSig } : {}),
+                ...locationFields(location),
+                ...(code ? { code } : {}),
+                // Phone clocks cannot be trusted, so the backend times scans itself.
+                ...(qrToken ? { token: qrToken } : { updatedAt: String(now) }),
+                ...auditFields(audit)
+            },
+            timestamp: now
         };
-        setSyncQueue(prev => [...prev, task]);
+        const request = qrToken && isOutboxAvailable() ? backend.submitRequest(task.data) : null;
+        if (request) {
+            // Phones hand the check-in to the service worker, which keeps sending it after the tab closes.
+            const entry = newOutboxEntry(task.id, request, normalizedId);
+            setOutbox(prev => [...prev, entry]);
+            addToOutbox(entry).then(
+                () => scheduleOutboxFlush().catch(err => console.warn('Could not schedule the outbox:', err)),
+                err => {
+                    console.warn('Outbox unavailable, syncing from the page:', err);
+                    setOutbox(prev => prev.filter(e => e.id !== entry.id));
+                    setSyncQueue(prev => [...prev, task]);
+                });
+        } else {
+            setSyncQueue(prev => [...prev, task]);
+        }
     }
     return { success: true, message: 'Recording attendance...' };
-  }, [scriptUrl]);
-
-  const handleBulkStatusUpdate = useCallback((studentIds: string[], status: 'P' | 'A') => {
-    const normalizedIds = studentIds.map(id => id.toUpperCase());
-    setAttendanceList(prevList => prevList.map(student => normalizedIds.includes(student.studentId) ? { ...student, status } : student));
-    if (scriptUrl && scriptUrl.startsWith('http')) {
-        const newTasks: SyncTask[] = normalizedIds.map(id => {
-            const student = attendanceList.find(s => s.studentId === id);
-            return student ? {
-                id: Math.random().toString(36).substring(2, 9) + Date.now().toString(),
-                data: { studentId: student.studentId, name: student.name, email: student.email, status },
-                timestamp: Date.now()
-            } : null;
-        }).filter(t => t !== null) as SyncTask[];
-        setSyncQueue(prev => [...prev, ...newTasks]);
+  }, [attendanceList, backend, activeSessionId, actorName]);
+
+  // Scans are late once the session's grace period has passed. Phones read the
+  // cut-off from the signed token; kiosk scans use the active session directly.
+  const handleStudentCheckIn = useCallback((name: string, studentId: string, email: string, proof?: CheckInProof) => {
+    if (isKioskMode || !token) {
+        const status = activeSession ? scanStatus(Date.now(), lateThreshold(activeSession)) : 'P';
+        return handleMarkAttendance(name, studentId, email, status, undefined, {}, { source: 'kiosk' });
     }
-  }, [attendanceList, scriptUrl]);
-
-  const handleRemoveStudents = useCallback((studentIds: string[]) => {
-      const normalizedIds = studentIds.map(id => id.toUpperCase());
-      setLocallyDeletedIds(prev => {
-          const next = new Set(prev);
-          normalizedIds.forEach(id => next.add(id));
-          return next;
-      });
-      setAttendanceList(prevList => prevList.filter(s => !normalizedIds.includes(s.studentId.toUpperCase())));
-  }, []);
-
-  const handleClearAttendance = useCallback(() => {
-    if (attendanceList.length === 0) return;
-    if (window.confirm("Are you sure you want to clear the current attendance list? This will hide existing records until they are scanned again.")) {
-      const currentIds = attendanceList.map(s => s.studentId.toUpperCase());
-      setLocallyDeletedIds(prev => {
+    const parsed = parseToken(token);
+    return handleMarkAttendance(name, studentId, email, parsed ? scanStatus(parsed.issuedAt, parsed.lateAt) : 'P', token, proof, { source: 'scan' });
+  }, [isKioskMode, token, activeSession, handleMarkAttendance]);
+
+  const sessionAttendance = attendanceList.filter(s => s.sessionId === activeSessionId);
+
+  // Applies record changes locally, logs them and queues what the backend
+  // needs to match. A change without `to` deletes the record.
+  const applyChanges = useCallback((recordChanges: RecordChange[], action: AuditAction, reason?: string, source: AuditSource = 'bulk') => {
+    if (recordChanges.length === 0) return;
+    const now = Date.now();
+    const changes = recordChanges.map(c => c.to ? { ...c, to: withEdit(c.to, now) } : c);
+    const entries = changes.map(c => newAuditEntry({
+        sessionId: c.sessionId, action, studentId: c.studentId,
+        ...(c.from ? { oldStatus: c.from.status } : {}),
+        ...(c.to ? { newStatus: c.to.status } : {}),
+        source, actor: actorName, ...(reason ? { reason } : {}),
+    }, now));
+    const byKey = new Map(changes.map(c => [deletedKey(c.sessionId, c.studentId), c]));
+    setLocallyDeletedIds(prev => {
         const next = new Set(prev);
-        currentIds.forEach(id => next.add(id));
+        changes.forEach(c => { if (c.to) next.delete(deletedKey(c.sessionId, c.studentId)); else next.add(deletedKey(c.sessionId, c.studentId)); });
         return next;
-      });
-      setAttendanceList([]);
+    });
+    setAttendanceList(prevList => {
+        const placed = new Set<string>();
+        const updated = prevList.flatMap(s => {
+            const key = deletedKey(s.sessionId, s.studentId);
+            const change = byKey.get(key);
+            if (!change) return [s];
+            placed.add(key);
+            return change.to ? [change.to] : [];
+        });
+        const added = changes.filter(c => c.to && !placed.has(deletedKey(c.sessionId, c.studentId))).map(c => c.to!);
+        return [...added, ...updated];
+    });
+    setAuditLog(prev => [...prev, ...entries]);
+    if (backend.isConfigured) {
+        const newTasks: SyncTask[] = changes.map((c, i) => c.to ? {
+            id: newTaskId(),
+            data: { studentId: c.to.studentId, name: c.to.name, email: c.to.email, status: c.to.status, sessionId: c.to.sessionId, updatedAt: String(now), ...auditFields(entries[i]) },
+            timestamp: now
+        } : deleteTask(c.sessionId, c.studentId, { ...(c.from ? { oldStatus: c.from.status } : {}), ...auditFields(entries[i]) }, now));
+        setSyncQueue(prev => [...prev, ...newTasks]);
     }
-  }, [attendanceList]);
+  }, [backend, actorName]);
+
+  // Every bulk action goes through here, so it can be undone.
+  const runCommand = useCallback((label: string, changes: RecordChange[], action: AuditAction, reason?: string, session?: BulkCommand['session']) => {
+    if (changes.length === 0 && !session) return;
+    applyChanges(changes, action, reason);
+    if (session) setSessions(prev => prev.map(s => s.id === session.to.id ? session.to : s));
+    setUndoStack(prev => pushCommand(prev, { id: newTaskId(), label, at: Date.now(), changes, ...(session ? { session } : {}) }));
+    setRedoStack([]);
+  }, [applyChanges]);
+
+  // Records changed since the command (a new scan, another bulk action) keep
+  // their newer state; the message says how many were left alone.
+  const replayCommand = useCallback((command: BulkCommand, direction: 'undo' | 'redo'): string => {
+    const { apply, stale } = applicableChanges(direction === 'undo' ? invertChanges(command.changes) : command.changes, attendanceList);
+    applyChanges(apply, direction, command.label);
+    const session = command.session && (direction === 'undo' ? command.session.from : command.session.to);
+    // Reopening a finalized session must not close one the teacher started since.
+    if (session && !(session.status === 'open' && sessions.some(s => s.status === 'open' && s.id !== session.id))) {
+        setSessions(prev => prev.map(s => s.id === session.id ? session : s));
+    }
+    const verb = direction === 'undo' ? 'Undid' : 'Redid';
+    return stale.length > 0
+        ? `${verb} "${command.label}" except ${stale.length} record${stale.length > 1 ? 's' : ''} changed since`
+        : `${verb} "${command.label}"`;
+  }, [attendanceList, sessions, applyChanges]);
+
+  const handleUndo = useCallback((): string | null => {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return null;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, command]);
+    return replayCommand(command, 'undo');
+  }, [undoStack, replayCommand]);
+
+  const handleRedo = useCallback((): string | null => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return null;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => pushCommand(prev, command));
+    return replayCommand(command, 'redo');
+  }, [redoStack, replayCommand]);
+
+  const sessionRecordsOf = useCallback((studentIds: string[]) => {
+    const normalizedIds = studentIds.map(id => id.toUpperCase());
+    return attendanceList.filter(s => s.sessionId === activeSessionId && normalizedIds.includes(s.studentId.toUpperCase()));
+  }, [attendanceList, activeSessionId]);
+
+  // Keeping the merge's result only clears the warning; bringing back the
+  // overwritten status is a new edit, which then wins everywhere.
+  const handleResolveConflict = useCallback((studentId: string, restore: boolean) => {
+    const [record] = sessionRecordsOf([studentId]);
+    if (!record?.conflict) return;
+    if (restore) {
+        applyChanges([{ sessionId: record.sessionId, studentId: record.studentId, from: record, to: { ...record, status: record.conflict.status } }], 'status', 'Edit conflict resolved', 'manual');
+    } else {
+        setAttendanceList(prev => prev.map(s => s === record ? withoutConflict(s) : s));
+    }
+  }, [sessionRecordsOf, applyChanges]);
+
+  const handleBulkStatusUpdate = useCallback((studentIds: string[], status: AttendanceStatus, reason?: string) => {
+    const changes = sessionRecordsOf(studentIds).map(s => ({ sessionId: s.sessionId, studentId: s.studentId, from: s, to: { ...s, status } }));
+    runCommand(`Marked ${changes.length} student${changes.length === 1 ? '' : 's'} ${STATUS_LABELS[status]}`, changes, 'status', reason);
+  }, [sessionRecordsOf, runCommand]);
+
+  const handleRemoveStudents = useCallback((studentIds: string[], reason?: string) => {
+    const changes = sessionRecordsOf(studentIds).map(s => ({ sessionId: s.sessionId, studentId: s.studentId, from: s }));
+    runCommand(`Removed ${changes.length} student${changes.length === 1 ? '' : 's'}`, changes, 'remove', reason);
+  }, [sessionRecordsOf, runCommand]);
+
+  const handleClearAttendance = useCallback((reason?: string) => {
+    const changes = sessionAttendance.map(s => ({ sessionId: s.sessionId, studentId: s.studentId, from: s }));
+    runCommand(`Cleared ${changes.length} record${changes.length === 1 ? '' : 's'}`, changes, 'clear', reason);
+  }, [sessionAttendance, runCommand]);
+
+  // Adds 'A' records for everyone given and queues them in one go, so the
+  // sheet column has no gaps once the session is finalized.
+  const handleFinalizeSession = useCallback((absentees: RosterStudent[], reason?: string) => {
+    if (!activeSessionId) return;
+    const now = Date.now();
+    const changes: RecordChange[] = absentees.map(s => {
+        const studentId = s.id.toUpperCase();
+        const to: Student = { name: s.name, studentId, email: studentEmail(s.id), timestamp: now, status: 'A', sessionId: activeSessionId };
+        return { sessionId: activeSessionId, studentId, from: attendanceList.find(r => r.sessionId === activeSessionId && r.studentId === studentId), to };
+    });
+    const session = sessions.find(s => s.id === activeSessionId);
+    runCommand(`Finalized with ${changes.length} absent`, changes, 'finalize', reason,
+        session && session.status === 'open' ? { from: session, to: { ...session, status: 'closed', endTime: now } } : undefined);
+  }, [activeSessionId, attendanceList, sessions, runCommand]);
+
+  const handleSaveRoster = useCallback((roster: Roster) => {
+    setRosters(prev => prev.some(r => r.id === roster.id) ? prev.map(r => r.id === roster.id ? roster : r) : [...prev, roster]);
+  }, []);
+
+  const handleDeleteRoster = useCallback((rosterId: string) => {
+    setRosters(prev => prev.filter(r => r.id !== rosterId));
+    setActiveRosterId(prev => prev === rosterId ? '' : prev);
+  }, []);
+
+  const handleStartSession = useCallback((courseCode: string, section: string, week: number, lateAfterMinutes: number) => {
+    const now = Date.now();
+    const session: Session = { id: generateSessionId(), courseCode, section, week, startTime: now, status: 'open', lateAfterMinutes };
+    // Only one session takes scans at a time.
+    setSessions(prev => [session, ...prev.map(s => s.status === 'open' ? { ...s, status: 'closed' as const, endTime: now } : s)]);
+    setActiveSessionId(session.id);
+  }, []);
+
+  const handleUpdateSession = useCallback((sessionId: string, changes: Partial<Omit<Session, 'id'>>) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, ...changes } : s));
+  }, []);
+
+  const handleCloseSession = useCallback((sessionId: string) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, status: 'closed', endTime: Date.now() } : s));
+  }, []);
+
+  const handleReopenSession = useCallback((sessionId: string) => {
+    const now = Date.now();
+    setSessions(prev => prev.map(s => {
+        if (s.id === sessionId) return { ...s, status: 'open', endTime: undefined };
+        return s.status === 'open' ? { ...s, status: 'closed', endTime: now } : s;
+    }));
+    setActiveSessionId(sessionId);
+  }, []);
+
+  const handleRetryDeadLetter = useCallback((id: string, data?: Record<string, string>) => {
+    const letter = deadLetters.find(t => t.id === id);
+    if (!letter) return;
+    setDeadLetters(prev => prev.filter(t => t.id !== id));
+    setSyncQueue(prev => [...prev, resubmitDeadLetter(letter, data)]);
+  }, [deadLetters]);
+
+  const handleDiscardDeadLetter = useCallback((id: string) => {
+    setDeadLetters(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const handleDiscardSyncTask = useCallback((id: string) => {
+    setSyncQueue(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  // Students at the kiosk must not reach the dashboard without the PIN. It is
+  // checked against a copy sealed with the lock the dashboard was unlocked
+  // with, so the PIN that opened the kiosk is always the one that leaves it.
+  // Without a lock there is no PIN to leave with, so the kiosk does not open.
+  const kioskLockRef = useRef<LockedSecrets | null>(null);
+  const handleOpenKiosk = useCallback(async () => {
+    kioskLockRef.current = teacher ? await sealSecrets(teacher.lock, {}).catch(() => null) : null;
+    if (!kioskLockRef.current) { setKioskNoPin(true); return; }
+    setIsKioskMode(true);
+    setView('student');
+  }, [teacher]);
+
+  const handleKioskExit = useCallback(async (pin: string) => {
+    const locked = kioskLockRef.current;
+    if (!locked || !(await openSecrets(locked, pin))) return false;
+    setKioskExitPrompt(false);
+    setIsKioskMode(false);
+    setView('teacher');
+    return true;
+  }, []);
 
   return (
     <div className="min-h-screen bg-base-100 flex flex-col items-center p-4 sm:p-6 lg:p-8 font-sans">
@@ -274,26 +820,98 @@ const App: React.FC = () => {
         <main className="bg-base-200 rounded-xl shadow-lg p-4 sm:p-8">
           {view === 'student' ? (
             <StudentView 
-                markAttendance={handleMarkAttendance} 
+                markAttendance={handleStudentCheckIn} 
+                verifyToken={handleVerifyToken}
+                roster={isKioskMode ? (activeRoster?.students || []) : remoteRoster}
+                geofence={isKioskMode ? undefined : linkGeofence}
                 token={token || 'admin-bypass'} 
                 bypassRestrictions={isKioskMode}
-                onExit={isKioskMode ? () => { setIsKioskMode(false); setView('teacher'); } : undefined}
+                onExit={isKioskMode ? () => setKioskExitPrompt(true) : undefined}
                 isSyncing={syncQueue.length > 0}
+                savedForUpload={outboxWaiting}
+                uploadError={outbox.find(e => e.failedAt && e.createdAt >= openedAt)?.lastError}
+                earlierRejection={isKioskMode ? undefined : earlierRejections[earlierRejections.length - 1]}
+                onDismissEarlierRejection={handleDismissEarlierRejections}
+                linkError={!isKioskMode && urlParams.get('b') === 'local' ? 'This class records attendance on the teacher\'s device only. Please check in on the teacher\'s screen.' : undefined}
             />
           ) : (
             <TeacherView 
-                attendanceList={attendanceList} 
+                attendanceList={sessionAttendance} 
                 onTestAttendance={() => handleMarkAttendance("TEST STUDENT", `TEST-${Math.floor(Math.random()*1000)}`, "test@uts.edu.my")} 
                 onClearAttendance={handleClearAttendance}
                 onRemoveStudents={handleRemoveStudents}
                 onBulkStatusUpdate={handleBulkStatusUpdate}
+                backend={backend}
+                backendKind={backendKind}
+                onBackendKindChange={setBackendKind}
                 scriptUrl={scriptUrl} 
                 onScriptUrlChange={setScriptUrl} 
-                onOpenKiosk={() => { setIsKioskMode(true); setView('student'); }}
-                onManualAdd={handleMarkAttendance}
+                teacherToken={teacherToken}
+                onTeacherTokenChange={setTeacherToken}
+                signingKey={signingKey}
+                onSigningKeyChange={setSigningKey}
+                sheetLayout={sheetLayout}
+                onSheetLayoutChange={setSheetLayout}
+                sessions={sessions}
+                activeSession={activeSession}
+                onSelectSession={setActiveSessionId}
+                onStartSession={handleStartSession}
+                onCloseSession={handleCloseSession}
+                onUpdateSession={handleUpdateSession}
+                onReopenSession={handleReopenSession}
+                rosters={rosters}
+                activeRoster={activeRoster}
+                onSelectRoster={setActiveRosterId}
+                onSaveRoster={handleSaveRoster}
+                onDeleteRoster={handleDeleteRoster}
+                onFinalizeSession={handleFinalizeSession}
+                onOpenKiosk={handleOpenKiosk}
+                onManualAdd={(name, id, email, status, reason) => handleMarkAttendance(name, id, email, status, undefined, {}, { source: 'manual', reason })}
+                isLive={isLive}
                 pendingSyncCount={syncQueue.length}
+                syncStats={syncStats}
+                syncCeiling={syncCeiling}
+                onSyncCeilingChange={handleSyncCeilingChange}
+                syncQueue={syncQueue}
+                deadLetters={deadLetters}
+                onRetryDeadLetter={handleRetryDeadLetter}
+                onDiscardDeadLetter={handleDiscardDeadLetter}
+                onDiscardSyncTask={handleDiscardSyncTask}
+                auditLog={auditLog}
+                auditActor={auditActor}
+                onAuditActorChange={setAuditActor}
+                lastCommand={undoStack[undoStack.length - 1] || null}
+                redoLabel={redoStack[redoStack.length - 1]?.label}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onResolveConflict={handleResolveConflict}
             />
           )}
+          {kioskExitPrompt && (
+            <PinDialog
+                title="Exit Kiosk Mode"
+                message="Enter the teacher PIN to return to the dashboard."
+                onSubmit={handleKioskExit}
+                onCancel={() => setKioskExitPrompt(false)}
+            />
+          )}
+          {kioskNoPin && (
+            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+                  <h3 className="text-lg font-bold text-gray-900">Teacher PIN Needed</h3>
+                  <button onClick={() => setKioskNoPin(false)} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4">
+                  <p className="text-sm text-gray-700">Admin mode can only be left with the teacher PIN, and this dashboard was not unlocked with one. Reload to set or enter your PIN, then open admin mode again.</p>
+                  <div className="flex gap-2">
+                    <button onClick={() => window.location.reload()} className="flex-1 py-2 bg-brand-primary text-white rounded font-bold hover:bg-brand-secondary">Reload</button>
+                    <button onClick={() => setKioskNoPin(false)} className="flex-1 py-2 bg-gray-200 text-gray-700 rounded font-bold">Cancel</button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
         </main>
       </div>
     </div>
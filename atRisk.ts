@@ -0,0 +1,100 @@
+import type { HistoryMatrix, HistoryRow } from './attendanceHistory';
+import { isBelowThreshold } from './attendanceHistory';
+import { studentEmail } from './roster';
+
+export const DEFAULT_CONSECUTIVE_ABSENCES = 3;
+
+export interface WarningTemplate {
+  subject: string;
+  body: string;
+}
+
+export const DEFAULT_WARNING_TEMPLATE: WarningTemplate = {
+  subject: 'Attendance warning: {studentId}',
+  body: [
+    'Dear {name} ({studentId}),',
+    '',
+    'Our records show that your attendance needs attention:',
+    '{reasons}',
+    '',
+    'Your attendance so far is {percentage} ({attended} of {counted} sessions).',
+    'Please see me as soon as possible. Students below the required attendance may be barred from the final examination.',
+    '',
+    'Regards,',
+  ].join('\n'),
+};
+
+// Placeholders a template can use, shown next to the editor.
+export const TEMPLATE_FIELDS = ['name', 'studentId', 'email', 'percentage', 'attended', 'counted', 'reasons', 'date'];
+
+export type BreachKind = 'consecutive' | 'percentage';
+
+export interface Breach {
+  kind: BreachKind;
+  // Stable for as long as the breach lasts, so a warning is only issued once.
+  // A new run of absences, or a different threshold, is a new breach.
+  key: string;
+  description: string;
+}
+
+export interface AtRiskStudent {
+  row: HistoryRow;
+  breaches: Breach[];
+}
+
+export interface IssuedWarning {
+  studentId: string;
+  breachKey: string;
+  issuedAt: number;
+}
+
+/** Runs of at least `minimum` sessions without attendance. Excused sessions neither break nor extend a run. */
+const absenceRuns = (row: HistoryRow, matrix: HistoryMatrix, minimum: number) => {
+  const runs: { from: string; length: number }[] = [];
+  let current: { from: string; length: number } | null = null;
+  matrix.columns.forEach(column => {
+    const status = row.marks[column.id];
+    if (status === 'E') return;
+    if (status === 'P' || status === 'L') { current = null; return; }
+    if (!current) { current = { from: column.id, length: 0 }; runs.push(current); }
+    current.length++;
+  });
+  return runs.filter(run => run.length >= minimum);
+};
+
+export const findAtRiskStudents = (matrix: HistoryMatrix, threshold: number, consecutiveAbsences: number): AtRiskStudent[] =>
+  matrix.rows
+    .map(row => {
+      const breaches: Breach[] = absenceRuns(row, matrix, consecutiveAbsences).map(run => ({
+        kind: 'consecutive' as const,
+        key: `consecutive:${run.from}`,
+        description: `${run.length} consecutive absences starting ${matrix.columns.find(c => c.id === run.from)?.label || run.from}`,
+      }));
+      if (isBelowThreshold(row, threshold)) {
+        breaches.push({ kind: 'percentage', key: `percentage:${threshold}`, description: `Attendance of ${row.percentage}% is below ${threshold}%` });
+      }
+      return { row, breaches };
+    })
+    .filter(s => s.breaches.length > 0);
+
+export const isWarningIssued = (issued: IssuedWarning[], studentId: string, breach: Breach) =>
+  issued.some(w => w.studentId === studentId && w.breachKey === breach.key);
+
+/** Replaces `{field}` placeholders; unknown ones are left as typed. */
+export const fillTemplate = (template: string, student: AtRiskStudent, breaches: Breach[] = student.breaches): string => {
+  const { row } = student;
+  const values: Record<string, string> = {
+    name: row.name || row.studentId,
+    studentId: row.studentId,
+    email: studentEmail(row.studentId),
+    percentage: row.percentage === null ? 'not available' : `${row.percentage}%`,
+    attended: String(row.attended),
+    counted: String(row.counted),
+    reasons: breaches.map(b => `- ${b.description}`).join('\n'),
+    date: new Date().toLocaleDateString(),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, field: string) => values[field] ?? match);
+};
+
+export const warningMailto = (template: WarningTemplate, student: AtRiskStudent, breaches?: Breach[]) =>
+  `mailto:${studentEmail(student.row.studentId)}?subject=${encodeURIComponent(fillTemplate(template.subject, student, breaches))}&body=${encodeURIComponent(fillTemplate(template.body, student, breaches))}`;
@@ -0,0 +1,98 @@
+import type { AttendanceHistory, HistorySession } from './backends';
+import type { AttendanceStatus } from './types';
+
+export const DEFAULT_ATTENDANCE_THRESHOLD = 80;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HistoryColumn extends HistorySession {
+  week: number;
+}
+
+export interface HistoryRow {
+  studentId: string;
+  name: string;
+  marks: Record<string, AttendanceStatus>;
+  // Present and late both count as attended. Excused sessions are left out of
+  // `counted`; a session with no mark counts as absent.
+  attended: number;
+  counted: number;
+  percentage: number | null;
+}
+
+export interface HistoryMatrix {
+  columns: HistoryColumn[];
+  rows: HistoryRow[];
+}
+
+const startOfDay = (ms: number) => {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Puts sessions in date order and gives each a week. Sessions the backend has
+ * no week for are numbered in 7-day steps from the first one.
+ */
+export const historyColumns = (sessions: HistorySession[]): HistoryColumn[] => {
+  const sorted = [...sessions].sort((a, b) => a.startTime - b.startTime);
+  const dated = sorted.filter(s => s.startTime > 0);
+  const first = dated.length > 0 ? startOfDay(dated[0].startTime) : 0;
+  return sorted.map(s => ({
+    ...s,
+    week: s.week || (s.startTime > 0 ? Math.floor((startOfDay(s.startTime) - first) / (7 * DAY_MS)) + 1 : 1),
+  }));
+};
+
+export const historyWeeks = (columns: HistoryColumn[]): number[] =>
+  Array.from(new Set(columns.map(c => c.week))).sort((a, b) => a - b);
+
+/** Students by sessions for the weeks `fromWeek`..`toWeek`, with each student's attendance percentage. */
+export const buildHistoryMatrix = (history: AttendanceHistory, fromWeek: number, toWeek: number): HistoryMatrix => {
+  const columns = historyColumns(history.sessions).filter(c => c.week >= fromWeek && c.week <= toWeek);
+  const inRange = new Set(columns.map(c => c.id));
+
+  const names = new Map(history.students.map(s => [s.id, s.name]));
+  const marks = new Map<string, Record<string, AttendanceStatus>>();
+  history.students.forEach(s => marks.set(s.id, {}));
+  history.entries.forEach(e => {
+    if (!marks.has(e.studentId)) marks.set(e.studentId, {});
+    if (inRange.has(e.sessionId)) marks.get(e.studentId)![e.sessionId] = e.status;
+  });
+
+  const rows = Array.from(marks, ([studentId, studentMarks]): HistoryRow => {
+    const statuses = Object.values(studentMarks);
+    const attended = statuses.filter(s => s === 'P' || s === 'L').length;
+    const counted = columns.length - statuses.filter(s => s === 'E').length;
+    return {
+      studentId,
+      name: names.get(studentId) || '',
+      marks: studentMarks,
+      attended,
+      counted,
+      percentage: counted > 0 ? Math.round(attended / counted * 1000) / 10 : null,
+    };
+  }).sort((a, b) => a.studentId.localeCompare(b.studentId, undefined, { numeric: true }));
+
+  return { columns, rows };
+};
+
+export const isBelowThreshold = (row: HistoryRow, threshold: number) =>
+  row.percentage !== null && row.percentage < threshold;
+
+export const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const historyToCsv = (matrix: HistoryMatrix, threshold: number): string => {
+  const headers = ['Student ID', 'Student Name', ...matrix.columns.map(c => `W${c.week} ${c.label}`), 'Attended', 'Counted', 'Attendance %', `Below ${threshold}%`];
+  const lines = matrix.rows.map(row => [
+    row.studentId,
+    row.name,
+    ...matrix.columns.map(c => row.marks[c.id] || ''),
+    row.attended,
+    row.counted,
+    row.percentage ?? '',
+    isBelowThreshold(row, threshold) ? 'Yes' : '',
+  ].map(csvField).join(','));
+  return [headers.map(csvField).join(','), ...lines].join('\n');
+};
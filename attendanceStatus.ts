@@ -0,0 +1,29 @@
+import type { AttendanceStatus, Session } from './types';
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['P', 'L', 'A', 'E'];
+
+export const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  P: 'Present',
+  L: 'Late',
+  A: 'Absent',
+  E: 'Excused',
+};
+
+export const STATUS_BADGE_CLASSES: Record<AttendanceStatus, string> = {
+  P: 'bg-green-100 text-green-800',
+  L: 'bg-yellow-100 text-yellow-800',
+  A: 'bg-red-100 text-red-800',
+  E: 'bg-blue-100 text-blue-800',
+};
+
+export const DEFAULT_LATE_AFTER_MINUTES = 15;
+
+export const isAttendanceStatus = (value: unknown): value is AttendanceStatus =>
+  typeof value === 'string' && (ATTENDANCE_STATUSES as string[]).includes(value);
+
+/** The moment after which a scan counts as late, or 0 when the session does not track lateness. */
+export const lateThreshold = (session: Session): number =>
+  session.lateAfterMinutes && session.lateAfterMinutes > 0 ? session.startTime + session.lateAfterMinutes * 60 * 1000 : 0;
+
+export const scanStatus = (scanTime: number, lateAt: number): AttendanceStatus =>
+  lateAt > 0 && scanTime > lateAt ? 'L' : 'P';
@@ -0,0 +1,92 @@
+// Append-only trail of attendance changes: who changed which record, how and why.
+// The teacher's device keeps its own entries; every backend write carries its
+// entry along, so the backend's Audit sheet or table also has the phone scans.
+
+import type { AttendanceStatus } from './types';
+import { newTaskId } from './syncQueue';
+import { csvField } from './attendanceHistory';
+
+export type AuditAction = 'check-in' | 'add' | 'status' | 'finalize' | 'remove' | 'clear' | 'undo' | 'redo';
+export type AuditSource = 'scan' | 'kiosk' | 'manual' | 'bulk';
+
+export interface AuditEntry {
+  id: string;
+  at: number;
+  sessionId: string;
+  action: AuditAction;
+  studentId: string;
+  // Unset when the student had no record before, or has none after.
+  oldStatus?: AttendanceStatus;
+  newStatus?: AttendanceStatus;
+  source: AuditSource;
+  // The student for their own scans, the teacher's name for everything else.
+  actor: string;
+  reason?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'check-in': 'Check-in',
+  add: 'Added',
+  status: 'Status change',
+  finalize: 'Marked absent',
+  remove: 'Removed',
+  clear: 'Cleared',
+  undo: 'Undone',
+  redo: 'Redone',
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  scan: 'Scan',
+  kiosk: 'Kiosk',
+  manual: 'Manual',
+  bulk: 'Bulk',
+};
+
+export const DEFAULT_AUDIT_ACTOR = 'Teacher';
+
+export const newAuditEntry = (fields: Omit<AuditEntry, 'id' | 'at'>, at: number = Date.now()): AuditEntry =>
+  ({ id: newTaskId(), at, ...fields });
+
+/** What a record sent to the backend carries so the backend can log the change itself. */
+export const auditFields = (entry: Pick<AuditEntry, 'action' | 'source' | 'actor' | 'reason'>): Record<string, string> => ({
+  auditAction: entry.action,
+  auditSource: entry.source,
+  auditActor: entry.actor,
+  ...(entry.reason ? { auditReason: entry.reason } : {}),
+});
+
+export interface AuditFilter {
+  sessionId?: string;
+  // Matched as a prefix of the student ID, ignoring case.
+  studentId?: string;
+  action?: AuditAction;
+  source?: AuditSource;
+}
+
+/** Matching entries, newest first. */
+export const filterAudit = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+  const student = (filter.studentId || '').trim().toUpperCase();
+  return entries
+    .filter(e => (!filter.sessionId || e.sessionId === filter.sessionId)
+      && (!student || e.studentId.startsWith(student))
+      && (!filter.action || e.action === filter.action)
+      && (!filter.source || e.source === filter.source))
+    .sort((a, b) => b.at - a.at);
+};
+
+export const AUDIT_CSV_HEADERS = ['Time', 'Session', 'Action', 'Student ID', 'Old Status', 'New Status', 'Source', 'Actor', 'Reason'];
+
+export const auditToCsv = (entries: AuditEntry[], sessionLabel: (sessionId: string) => string = id => id): string => {
+  const lines = entries.map(e => [
+    new Date(e.at).toISOString(),
+    sessionLabel(e.sessionId),
+    AUDIT_ACTION_LABELS[e.action],
+    e.studentId,
+    e.oldStatus || '',
+    e.newStatus || '',
+    AUDIT_SOURCE_LABELS[e.source],
+    e.actor,
+    e.reason || '',
+  ].map(csvField).join(','));
+  return [AUDIT_CSV_HEADERS.map(csvField).join(','), ...lines].join('\n');
+};
@@ -0,0 +1,100 @@
+import type { RosterStudent } from '../types';
+import { BatchUnsupportedError } from './types';
+import type { AttendanceBackend, AttendanceHistory, BackendHealth, OutboxRequest, SessionRecords, SubmitRecord, SubmitResult, TokenVerification } from './types';
+import { fetchWithTimeout, isHttpUrl, readJson, toBackendHealth, toHistory, toSessionRecords, withQuery } from './http';
+
+/**
+ * The Google Apps Script web app from GoogleSheetIntegrationInfo: form-encoded
+ * POSTs, `?action=` GETs. The self-hosted server speaks the same protocol and
+ * wants its teacher token on everything but check-ins, so a token, when set, is
+ * sent as `Authorization: Bearer <token>`. Google's script never gets one: the
+ * header would need a CORS preflight, which Apps Script cannot answer.
+ */
+export class AppsScriptBackend implements AttendanceBackend {
+  readonly kind = 'apps-script' as const;
+  private readonly url: string;
+  private readonly teacherToken: string;
+
+  constructor(url: string, teacherToken: string = '') {
+    this.url = url.trim();
+    this.teacherToken = teacherToken.trim();
+  }
+
+  private get authHeaders(): Record<string, string> {
+    return this.teacherToken ? { Authorization: `Bearer ${this.teacherToken}` } : {};
+  }
+
+  get isConfigured() {
+    return isHttpUrl(this.url);
+  }
+
+  private async post(params: Record<string, string>): Promise<any> {
+    // Form encoding keeps this a "simple" request: Apps Script cannot answer CORS preflights.
+    const response = await fetchWithTimeout(this.url, {
+      method: 'POST',
+      body: new URLSearchParams(params),
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...this.authHeaders },
+    });
+    return readJson(response);
+  }
+
+  submitRequest(record: SubmitRecord): OutboxRequest {
+    return { url: this.url, method: 'POST', headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, body: new URLSearchParams(record).toString() };
+  }
+
+  async submit(record: SubmitRecord): Promise<void> {
+    const result = await this.post(record);
+    if (result.result !== 'success') {
+      throw new Error(result.message || 'Script rejected data');
+    }
+  }
+
+  async submitBatch(records: SubmitRecord[]): Promise<SubmitResult[]> {
+    const result = await this.post({ action: 'batch', records: JSON.stringify(records) });
+    if (!Array.isArray(result.results)) {
+      // Scripts older than v3.5 treat the batch as one record without an ID.
+      // Any other error, such as a lock timeout, is worth retrying as a batch.
+      if (result.result === 'error' && !/missing student id/i.test(String(result.message))) {
+        throw new Error(result.message || 'Script rejected batch');
+      }
+      throw new BatchUnsupportedError(result.message);
+    }
+    return result.results.map((r: any) => ({ id: String(r.id), ok: r.result === 'success', message: r.message }));
+  }
+
+  async fetchSession(sessionId: string): Promise<SessionRecords> {
+    // The script reads the date column the session was written to.
+    return toSessionRecords(await readJson(await fetchWithTimeout(withQuery(this.url, { action: 'read', sessionId, tombstones: '1' }), { headers: this.authHeaders })));
+  }
+
+  async fetchHistory(): Promise<AttendanceHistory> {
+    // Every date column across the sheets in the layout.
+    return toHistory(await readJson(await fetchWithTimeout(withQuery(this.url, { action: 'history' }), { headers: this.authHeaders })));
+  }
+
+  async verifyToken(token: string, code?: string): Promise<TokenVerification | null> {
+    try {
+      const result = await readJson(await fetchWithTimeout(withQuery(this.url, { action: 'verify', token, ...(code !== undefined ? { code } : {}) })));
+      return typeof result.valid === 'boolean' ? result : null;
+    } catch (e) {
+      console.warn('Token verification unavailable:', e);
+      return null;
+    }
+  }
+
+  async fetchRoster(): Promise<RosterStudent[]> {
+    const data = await readJson(await fetchWithTimeout(withQuery(this.url, { action: 'roster' })));
+    return Array.isArray(data) ? data.filter((s: any) => s && s.id && s.name) : [];
+  }
+
+  async health(): Promise<BackendHealth> {
+    try {
+      const data = await readJson(await fetchWithTimeout(withQuery(this.url, { action: 'ping' })));
+      // Scripts from before the ping action answer with today's records instead.
+      if (Array.isArray(data)) return { ok: true, message: 'The deployed script predates the health check.' };
+      return data && typeof data === 'object' && data.ok ? toBackendHealth(data) : { ok: false, message: 'Unexpected response from script' };
+    } catch (e) {
+      return { ok: false, message: e instanceof Error ? e.message : String(e) };
+    }
+  }
+}
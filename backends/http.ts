@@ -0,0 +1,115 @@
+// Shared fetch helpers for the HTTP backends.
+
+import { isAttendanceStatus } from '../attendanceStatus';
+import type { ScanLocation } from '../types';
+import type { AttendanceHistory, BackendHealth, RemoteRecord, SessionRecords, SubmitRecord } from './types';
+
+// Generous timeout: Apps Script queues requests behind its lock under load.
+export const REQUEST_TIMEOUT_MS = 20000;
+
+export const fetchWithTimeout = async (url: string, init: RequestInit = {}, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export const readJson = async (response: Response): Promise<any> => {
+  if (!response.ok) {
+    // If 429 Too Many Requests or 500, we throw to trigger retry
+    throw new Error(`Server status: ${response.status}`);
+  }
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error('Invalid server response format');
+  }
+};
+
+export const withQuery = (url: string, params: Record<string, string>): string => {
+  const query = new URLSearchParams({ ...params, _: Date.now().toString() }).toString();
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+// Location travels as flat latitude/longitude/accuracy/distance fields.
+export const locationFields = (location?: ScanLocation): SubmitRecord => location ? {
+  latitude: String(location.latitude),
+  longitude: String(location.longitude),
+  accuracy: String(Math.round(location.accuracy)),
+  distance: String(Math.round(location.distance)),
+} : {};
+
+const parseLocation = (item: any): ScanLocation | undefined => {
+  const latitude = parseFloat(item.latitude);
+  const longitude = parseFloat(item.longitude);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+  return { latitude, longitude, accuracy: parseFloat(item.accuracy) || 0, distance: parseFloat(item.distance) || 0 };
+};
+
+export const toRemoteRecord = (item: any): RemoteRecord => ({
+  studentId: String(item.studentId).toUpperCase(),
+  name: item.name ? String(item.name).toUpperCase() : '',
+  email: item.email ? String(item.email).toUpperCase() : '',
+  status: isAttendanceStatus(item.status) ? item.status : 'P',
+  timestamp: typeof item.timestamp === 'number' ? item.timestamp : undefined,
+  ...(Number(item.updatedAt) > 0 ? { updatedAt: Number(item.updatedAt) } : {}),
+  ...(item.deviceId ? { deviceId: String(item.deviceId) } : {}),
+  ...(item.deviceFingerprint ? { deviceFingerprint: String(item.deviceFingerprint) } : {}),
+  ...(parseLocation(item) ? { location: parseLocation(item) } : {}),
+  ...(item.locationFlag ? { locationFlag: String(item.locationFlag) } : {}),
+});
+
+export const toRemoteRecords = (data: unknown): RemoteRecord[] =>
+  Array.isArray(data) ? data.filter((item: any) => item && item.studentId).map(toRemoteRecord) : [];
+
+/**
+ * `{ records, tombstones }`, or a bare list of records from scripts and
+ * servers that predate deletion.
+ */
+export const toSessionRecords = (data: any): SessionRecords => Array.isArray(data)
+  ? { records: toRemoteRecords(data), tombstones: [] }
+  : {
+    records: toRemoteRecords(data?.records),
+    tombstones: (Array.isArray(data?.tombstones) ? data.tombstones : [])
+      .filter((t: any) => t && t.studentId && Number.isFinite(Number(t.deletedAt)))
+      .map((t: any) => ({ studentId: String(t.studentId).toUpperCase().trim(), deletedAt: Number(t.deletedAt) })),
+  };
+
+/** `{ sessions, students, entries }` as sent by the script and the server; anything malformed is dropped. */
+export const toHistory = (data: any): AttendanceHistory => {
+  const list = (value: unknown): any[] => Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+  return {
+    sessions: list(data?.sessions)
+      .filter(s => s.id && Number.isFinite(Number(s.startTime)))
+      .map(s => ({
+        id: String(s.id),
+        label: String(s.label || s.id),
+        startTime: Number(s.startTime),
+        ...(Number(s.week) > 0 ? { week: Number(s.week) } : {}),
+      })),
+    students: list(data?.students)
+      .filter(s => s.id)
+      .map(s => ({ id: String(s.id).toUpperCase().trim(), name: String(s.name || '').toUpperCase().trim() })),
+    entries: list(data?.entries)
+      .filter(e => e.sessionId && e.studentId && isAttendanceStatus(e.status))
+      .map(e => ({ sessionId: String(e.sessionId), studentId: String(e.studentId).toUpperCase().trim(), status: e.status })),
+  };
+};
+
+/** A ping or /health reply; fields the backend did not send stay undefined. */
+export const toBackendHealth = (data: any): BackendHealth => ({
+  ok: !!data?.ok,
+  ...(data?.message ? { message: String(data.message) } : {}),
+  ...(data?.version ? { version: String(data.version) } : {}),
+  ...(data?.timezone ? { timezone: String(data.timezone) } : {}),
+  ...(Number.isFinite(data?.lockWaitMs) ? { lockWaitMs: Number(data.lockWaitMs) } : {}),
+  ...(typeof data?.verifiesTokens === 'boolean' ? { verifiesTokens: data.verifiesTokens } : {}),
+  ...(Array.isArray(data?.sheets) ? { sheets: data.sheets.filter((s: any) => s && s.name).map((s: any) => ({ name: String(s.name), found: !!s.found })) } : {}),
+  ...(data?.selfHosted ? { selfHosted: true } : {}),
+});
+
+export const isHttpUrl = (url: string) => /^https?:\/\//.test(url.trim());
@@ -0,0 +1,30 @@
+import { AppsScriptBackend } from './appsScript';
+import { LocalBackend } from './local';
+import { RestBackend } from './rest';
+import type { AttendanceBackend, BackendKind } from './types';
+
+export * from './types';
+export { locationFields } from './http';
+export { AppsScriptBackend } from './appsScript';
+export { RestBackend } from './rest';
+export { LocalBackend, createInMemoryBackend } from './local';
+
+export const BACKEND_LABELS: Record<BackendKind, string> = {
+  'apps-script': 'Google Apps Script',
+  rest: 'REST / JSON Server',
+  local: 'Local Only (this device)',
+};
+
+export const DEFAULT_BACKEND_KIND: BackendKind = 'apps-script';
+export const DEFAULT_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbxhMDImDgH34jMpCuCKTl_iL3xxnZf9OzjXORqnULDOg02C64p3JArfT8xH4oX7RsmS/exec';
+
+export const isBackendKind = (value: unknown): value is BackendKind =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BACKEND_LABELS, value);
+
+export const createBackend = (kind: BackendKind, url: string, teacherToken: string = ''): AttendanceBackend => {
+  switch (kind) {
+    case 'rest': return new RestBackend(url, teacherToken);
+    case 'local': return new LocalBackend();
+    default: return new AppsScriptBackend(url, teacherToken);
+  }
+};
@@ -0,0 +1,130 @@
+import type { RosterStudent } from '../types';
+import { isAttendanceStatus } from '../attendanceStatus';
+import { loadLocalRecords, saveLocalRecords } from '../storage';
+import { toRemoteRecord } from './http';
+import type { AttendanceBackend, AttendanceHistory, BackendHealth, OutboxRequest, RemoteRecord, SessionRecords, SubmitRecord, SubmitResult, TokenVerification } from './types';
+
+/** A record as the local backend keeps it: one row per session and student. */
+export type LocalRecord = RemoteRecord & { sessionId: string };
+
+/** Where LocalBackend keeps its records; IndexedDB unless a test passes its own. */
+export interface LocalRecordStore {
+  load(sessionId?: string): Promise<LocalRecord[]>;
+  save(put: LocalRecord[], remove: [string, string][]): Promise<void>;
+}
+
+const indexedDbStore: LocalRecordStore = { load: loadLocalRecords, save: saveLocalRecords };
+
+// What one write does to the stored records: a row to put, or a key to remove.
+type LocalChange = { put: LocalRecord } | { remove: [string, string] };
+
+/**
+ * Keeps records on this device only. Nothing leaves the browser; the teacher
+ * exports CSV instead. With an in-memory store it doubles as a stand-in for tests.
+ */
+export class LocalBackend implements AttendanceBackend {
+  readonly kind = 'local' as const;
+  readonly isConfigured = true;
+  private readonly store: LocalRecordStore;
+
+  constructor(store: LocalRecordStore = indexedDbStore) {
+    this.store = store;
+  }
+
+  private change(record: SubmitRecord): LocalChange | null {
+    // The app keeps the audit log and session statuses on this device already.
+    if (record.kind === 'audit' || record.kind === 'session') return null;
+    const studentId = (record.studentId || '').toUpperCase().trim();
+    if (!studentId) throw new Error('Missing Student ID');
+    const sessionId = record.sessionId || '';
+    // Only this device reads these records, so no tombstone is needed.
+    if (record.kind === 'delete') return { remove: [sessionId, studentId] };
+    if (!isAttendanceStatus(record.status)) throw new Error(`Invalid status: ${record.status}`);
+    return { put: { ...toRemoteRecord({ ...record, studentId }), sessionId, timestamp: Date.now() } };
+  }
+
+  private async apply(changes: LocalChange[]) {
+    // Later writes to the same record win, so a deletion and its undo land in order.
+    const latest = new Map<string, LocalChange>();
+    changes.forEach(c => latest.set(JSON.stringify('put' in c ? [c.put.sessionId, c.put.studentId] : c.remove), c));
+    if (latest.size === 0) return;
+    const all = Array.from(latest.values());
+    await this.store.save(
+      all.flatMap(c => 'put' in c ? [c.put] : []),
+      all.flatMap(c => 'remove' in c ? [c.remove] : []));
+  }
+
+  async submit(record: SubmitRecord): Promise<void> {
+    const change = this.change(record);
+    if (change) await this.apply([change]);
+  }
+
+  submitRequest(): OutboxRequest | null {
+    return null;
+  }
+
+  async submitBatch(records: SubmitRecord[]): Promise<SubmitResult[]> {
+    const changes: LocalChange[] = [];
+    const results = records.map(record => {
+      try {
+        const change = this.change(record);
+        if (change) changes.push(change);
+        return { id: record.taskId, ok: true };
+      } catch (e) {
+        return { id: record.taskId, ok: false, message: e instanceof Error ? e.message : String(e) };
+      }
+    });
+    await this.apply(changes);
+    return results;
+  }
+
+  async fetchSession(sessionId: string): Promise<SessionRecords> {
+    return { records: (await this.store.load(sessionId)).map(({ sessionId: _, ...record }) => record), tombstones: [] };
+  }
+
+  async fetchHistory(): Promise<AttendanceHistory> {
+    // Only records are kept here; the app labels sessions it still knows about.
+    const bySession = new Map<string, LocalRecord[]>();
+    (await this.store.load()).forEach(r => bySession.set(r.sessionId, [...(bySession.get(r.sessionId) || []), r]));
+    const students = new Map<string, string>();
+    const entries = Array.from(bySession.values()).flat().map(r => {
+      students.set(r.studentId, r.name);
+      return { sessionId: r.sessionId, studentId: r.studentId, status: r.status };
+    });
+    return {
+      sessions: Array.from(bySession, ([id, records]) => {
+        const times = records.map(r => r.timestamp || 0).filter(t => t > 0);
+        const startTime = times.length > 0 ? Math.min(...times) : 0;
+        return { id, label: startTime ? new Date(startTime).toLocaleDateString() : id, startTime };
+      }),
+      students: Array.from(students, ([id, name]) => ({ id, name })),
+      entries,
+    };
+  }
+
+  async verifyToken(_token: string, _code?: string): Promise<TokenVerification | null> {
+    // Only the teacher's device holds the key, and students cannot reach it.
+    return null;
+  }
+
+  async fetchRoster(): Promise<RosterStudent[]> {
+    return [];
+  }
+
+  async health(): Promise<BackendHealth> {
+    return { ok: true, message: 'Records are stored on this device only.' };
+  }
+}
+
+/** A LocalBackend that forgets everything when dropped, for tests and demos. */
+export const createInMemoryBackend = (): LocalBackend => {
+  const data = new Map<string, LocalRecord>();
+  const keyOf = (sessionId: string, studentId: string) => `${sessionId}:${studentId}`;
+  return new LocalBackend({
+    load: async sessionId => Array.from(data.values()).filter(r => sessionId === undefined || r.sessionId === sessionId),
+    save: async (put, remove) => {
+      remove.forEach(([sessionId, studentId]) => data.delete(keyOf(sessionId, studentId)));
+      put.forEach(r => data.set(keyOf(r.sessionId, r.studentId), r));
+    },
+  });
+};
@@ -0,0 +1,156 @@
+import type { RosterStudent } from '../types';
+import type { AttendanceBackend, AttendanceHistory, BackendHealth, OutboxRequest, RecordEvent, SessionRecords, SubmitRecord, SubmitResult, TokenVerification } from './types';
+import { fetchWithTimeout, isHttpUrl, readJson, toBackendHealth, toHistory, toRemoteRecord, toSessionRecords, withQuery } from './http';
+
+// Matches the retry the server advertises on its event streams.
+const STREAM_RETRY_MS = 3000;
+
+/**
+ * A generic JSON server. Phones only use POST /records, /tokens/verify,
+ * /roster and /health; every other route may require the teacher token, sent
+ * as `Authorization: Bearer <token>`. The event stream cannot set headers, so
+ * with a token it is opened with a single-use ticket from
+ * POST /sessions/:id/events/ticket. Expected routes, relative to the base URL:
+ *
+ *   POST /records                  one record           -> { ok, message? }
+ *                                  (kind: 'delete' removes the student's record instead)
+ *   POST /records/batch            { records: [...] }   -> { results: [{ id, ok, message? }] }
+ *   GET  /sessions/:id/records?tombstones=1             -> { records: [{ studentId, name, email, status, timestamp }],
+ *                                                           tombstones: [{ studentId, deletedAt }] }
+ *   GET  /history                                       -> { sessions, students, entries }
+ *   POST /sessions/:id/events/ticket                    -> { ticket, expiresIn }
+ *   GET  /sessions/:id/events[?ticket=...]  text/event-stream: snapshot, upsert and remove events
+ *   GET  /tokens/verify?token=...[&code=...]            -> { valid, reason? }
+ *   GET  /roster                                        -> [{ id, name }]
+ *   GET  /health                                        -> { ok, version?, timezone?, verifiesTokens? }
+ */
+export class RestBackend implements AttendanceBackend {
+  readonly kind = 'rest' as const;
+  private readonly baseUrl: string;
+  private readonly teacherToken: string;
+
+  constructor(baseUrl: string, teacherToken: string = '') {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    this.teacherToken = teacherToken.trim();
+  }
+
+  private get authHeaders(): Record<string, string> {
+    return this.teacherToken ? { Authorization: `Bearer ${this.teacherToken}` } : {};
+  }
+
+  get isConfigured() {
+    return isHttpUrl(this.baseUrl);
+  }
+
+  private async postJson(path: string, body: unknown): Promise<any> {
+    const response = await fetchWithTimeout(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders },
+    });
+    return readJson(response);
+  }
+
+  private async getJson(path: string, params: Record<string, string> = {}): Promise<any> {
+    return readJson(await fetchWithTimeout(withQuery(`${this.baseUrl}${path}`, params), { headers: this.authHeaders }));
+  }
+
+  submitRequest(record: SubmitRecord): OutboxRequest {
+    return { url: `${this.baseUrl}/records`, method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(record) };
+  }
+
+  async submit(record: SubmitRecord): Promise<void> {
+    const result = await this.postJson('/records', record);
+    if (!result.ok) throw new Error(result.message || 'Server rejected data');
+  }
+
+  async submitBatch(records: SubmitRecord[]): Promise<SubmitResult[]> {
+    const result = await this.postJson('/records/batch', { records });
+    if (!Array.isArray(result.results)) throw new Error('Invalid batch response');
+    return result.results.map((r: any) => ({ id: String(r.id), ok: !!r.ok, message: r.message }));
+  }
+
+  async fetchSession(sessionId: string): Promise<SessionRecords> {
+    return toSessionRecords(await this.getJson(`/sessions/${encodeURIComponent(sessionId)}/records?tombstones=1`));
+  }
+
+  async fetchHistory(): Promise<AttendanceHistory> {
+    return toHistory(await this.getJson('/history'));
+  }
+
+  subscribe(sessionId: string, onEvent: (event: RecordEvent) => void, onLive: (live: boolean) => void): () => void {
+    if (typeof EventSource === 'undefined') return () => {};
+    const path = `/sessions/${encodeURIComponent(sessionId)}/events`;
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const listen = (target: EventSource, type: RecordEvent['type'], toEvent: (data: any) => RecordEvent | null) => {
+      target.addEventListener(type, (e: MessageEvent) => {
+        try {
+          const event = toEvent(JSON.parse(e.data));
+          if (event) onEvent(event);
+        } catch (err) {
+          console.warn(`Bad ${type} event:`, err);
+        }
+      });
+    };
+
+    const connect = async () => {
+      let url = `${this.baseUrl}${path}`;
+      if (this.teacherToken) {
+        try {
+          url = withQuery(url, { ticket: String((await this.postJson(`${path}/ticket`, {})).ticket || '') });
+        } catch (e) {
+          console.warn('Stream ticket unavailable:', e);
+          onLive(false);
+          reconnect();
+          return;
+        }
+      }
+      if (closed) return;
+      const opened = new EventSource(url);
+      source = opened;
+      // EventSource reconnects by itself and the server sends a fresh snapshot
+      // each time, but a ticket only opens one stream, so those reconnect here.
+      opened.onopen = () => onLive(true);
+      opened.onerror = () => {
+        onLive(false);
+        if (this.teacherToken) { opened.close(); reconnect(); }
+      };
+      listen(opened, 'snapshot', data => ({ type: 'snapshot', ...toSessionRecords(data) }));
+      listen(opened, 'upsert', data => data && data.studentId ? { type: 'upsert', record: toRemoteRecord(data) } : null);
+      listen(opened, 'remove', data => data && data.studentId ? { type: 'remove', studentId: String(data.studentId).toUpperCase() } : null);
+    };
+
+    const reconnect = () => {
+      if (!closed) retry = setTimeout(connect, STREAM_RETRY_MS);
+    };
+
+    connect();
+    return () => { closed = true; clearTimeout(retry); source?.close(); onLive(false); };
+  }
+
+  async verifyToken(token: string, code?: string): Promise<TokenVerification | null> {
+    try {
+      const result = await this.getJson('/tokens/verify', { token, ...(code !== undefined ? { code } : {}) });
+      return typeof result.valid === 'boolean' ? result : null;
+    } catch (e) {
+      console.warn('Token verification unavailable:', e);
+      return null;
+    }
+  }
+
+  async fetchRoster(): Promise<RosterStudent[]> {
+    const data = await this.getJson('/roster');
+    return Array.isArray(data) ? data.filter((s: any) => s && s.id && s.name) : [];
+  }
+
+  async health(): Promise<BackendHealth> {
+    try {
+      return toBackendHealth(await this.getJson('/health'));
+    } catch (e) {
+      return { ok: false, message: e instanceof Error ? e.message : String(e) };
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import type { AttendanceStatus, RosterStudent, ScanLocation } from '../types';
+
+export type BackendKind = 'apps-script' | 'rest' | 'local';
+
+/** A queued record as it travels to the backend. Values are strings so they form-encode as-is. */
+export type SubmitRecord = Record<string, string>;
+
+export interface SubmitResult {
+  id: string;
+  ok: boolean;
+  message?: string;
+}
+
+export interface RemoteRecord {
+  studentId: string;
+  name: string;
+  email?: string;
+  status: AttendanceStatus;
+  timestamp?: number;
+  // When the status was last set; unset from backends that predate versions.
+  updatedAt?: number;
+  deviceId?: string;
+  deviceFingerprint?: string;
+  location?: ScanLocation;
+  // Set by the backend when the scan broke the geofence signed into its token.
+  locationFlag?: string;
+}
+
+/** A student whose record was deleted, so devices still showing it drop it. */
+export interface Tombstone {
+  studentId: string;
+  deletedAt: number;
+}
+
+/** A session as the backend has it: the records, and those deleted since they were written. */
+export interface SessionRecords {
+  records: RemoteRecord[];
+  tombstones: Tombstone[];
+}
+
+/** A change to one session's records, pushed by backends that can stream. */
+export type RecordEvent =
+  | ({ type: 'snapshot' } & SessionRecords)
+  | { type: 'upsert'; record: RemoteRecord }
+  | { type: 'remove'; studentId: string };
+
+/** One class meeting (a date column, for the Apps Script) in the attendance history. */
+export interface HistorySession {
+  id: string;
+  label: string;
+  startTime: number;
+  /** Teaching week, when the backend knows it. */
+  week?: number;
+}
+
+export interface HistoryEntry {
+  sessionId: string;
+  studentId: string;
+  status: AttendanceStatus;
+}
+
+/**
+ * Every recorded session with its marks. `students` also lists people with no
+ * marks at all, who would otherwise be missing from the report.
+ */
+export interface AttendanceHistory {
+  sessions: HistorySession[];
+  students: RosterStudent[];
+  entries: HistoryEntry[];
+}
+
+export interface TokenVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+export interface BackendHealth {
+  ok: boolean;
+  message?: string;
+  version?: string;
+  /** Time zone the backend dates records in. */
+  timezone?: string;
+  /** How long the backend waited for its write lock; long waits mean contention. */
+  lockWaitMs?: number;
+  /** Whether QR tokens are checked (TOKEN_SECRET is set). */
+  verifiesTokens?: boolean;
+  /** Sheets the deployed script is set up for, and whether each exists. */
+  sheets?: { name: string; found: boolean }[];
+  /** The Apps Script protocol is answered by the self-hosted server, which has its own versions. */
+  selfHosted?: boolean;
+}
+
+/** A write as a plain HTTP request, so the service worker can send it after the tab closes. */
+export interface OutboxRequest {
+  url: string;
+  method: 'POST';
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Everything the app needs from a place that stores attendance. Writes throw
+ * when the whole request failed, so the sync queue can retry it later.
+ */
+export interface AttendanceBackend {
+  readonly kind: BackendKind;
+  /** False until enough configuration (e.g. a URL) exists to talk to it. */
+  readonly isConfigured: boolean;
+  submit(record: SubmitRecord): Promise<void>;
+  /** Records must carry a `taskId`; results are reported per task. */
+  submitBatch(records: SubmitRecord[]): Promise<SubmitResult[]>;
+  /** The request `submit` sends, or null when writes never leave the browser. */
+  submitRequest(record: SubmitRecord): OutboxRequest | null;
+  fetchSession(sessionId: string): Promise<SessionRecords>;
+  fetchHistory(): Promise<AttendanceHistory>;
+  /**
+   * Checks the token, and the verification code too when one is given.
+   * Resolves to null when the backend cannot be asked right now.
+   */
+  verifyToken(token: string, code?: string): Promise<TokenVerification | null>;
+  fetchRoster(): Promise<RosterStudent[]>;
+  health(): Promise<BackendHealth>;
+  /**
+   * Streams record changes for a session. `onLive` reports whether the stream
+   * is connected, so callers can poll `fetchSession` while it is not. Returns
+   * an unsubscribe function. Absent on backends that can only be polled.
+   */
+  subscribe?(sessionId: string, onEvent: (event: RecordEvent) => void, onLive: (live: boolean) => void): () => void;
+}
+
+/** Thrown by `submitBatch` when the deployed backend only understands single records. */
+export class BatchUnsupportedError extends Error {
+  constructor(message = 'Backend does not support batch sync') {
+    super(message);
+    this.name = 'BatchUnsupportedError';
+  }
+}
@@ -0,0 +1,49 @@
+// Bulk teacher actions kept as commands, so they can be undone and redone.
+// A command lists each record before and after; undoing applies the changes
+// the other way round, and the app syncs the result like any other change.
+
+import type { Session, Student } from './types';
+
+export interface RecordChange {
+  sessionId: string;
+  studentId: string;
+  // Unset when the student had no record, or it was hidden.
+  from?: Student;
+  to?: Student;
+}
+
+export interface BulkCommand {
+  id: string;
+  // What the toast and the undo button say, e.g. "Marked 3 students Absent".
+  label: string;
+  at: number;
+  changes: RecordChange[];
+  // Finalizing also closes the session.
+  session?: { from: Session, to: Session };
+}
+
+export const MAX_UNDO_STEPS = 20;
+
+export const pushCommand = (stack: BulkCommand[], command: BulkCommand): BulkCommand[] =>
+  [...stack, command].slice(-MAX_UNDO_STEPS);
+
+export const invertChanges = (changes: RecordChange[]): RecordChange[] =>
+  changes.map(c => ({ sessionId: c.sessionId, studentId: c.studentId, from: c.to, to: c.from }));
+
+const sameState = (a?: Student, b?: Student) => (!a && !b) || (!!a && !!b && a.status === b.status);
+
+/**
+ * Splits changes into those whose record is still as `from` describes, and
+ * stale ones: records someone changed since, which undo must not overwrite.
+ */
+export const applicableChanges = (changes: RecordChange[], current: Student[]): { apply: RecordChange[], stale: RecordChange[] } => {
+  const byKey = new Map(current.map(s => [`${s.sessionId}:${s.studentId.toUpperCase()}`, s]));
+  const apply: RecordChange[] = [];
+  const stale: RecordChange[] = [];
+  changes.forEach(c => {
+    const now = byKey.get(`${c.sessionId}:${c.studentId.toUpperCase()}`);
+    if (sameState(now, c.from)) apply.push(now ? { ...c, from: now } : c);
+    else stale.push(c);
+  });
+  return { apply, stale };
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { HistoryMatrix } from '../attendanceHistory';
+import { DEFAULT_CONSECUTIVE_ABSENCES, DEFAULT_WARNING_TEMPLATE, TEMPLATE_FIELDS, fillTemplate, findAtRiskStudents, isWarningIssued, warningMailto } from '../atRisk';
+import type { AtRiskStudent, IssuedWarning, WarningTemplate } from '../atRisk';
+
+const ABSENCES_KEY = 'attendance-warning-absences-v1';
+const TEMPLATE_KEY = 'attendance-warning-template-v1';
+const ISSUED_KEY = 'attendance-issued-warnings-v1';
+
+interface AtRiskPanelProps {
+  matrix: HistoryMatrix;
+  threshold: number;
+}
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const formatDate = (ms: number) => new Date(ms).toLocaleDateString([], { day: '2-digit', month: 'short', year: 'numeric' });
+
+export const AtRiskPanel: React.FC<AtRiskPanelProps> = ({ matrix, threshold }) => {
+  const [consecutiveAbsences, setConsecutiveAbsences] = useState<number>(() => Number(localStorage.getItem(ABSENCES_KEY)) || DEFAULT_CONSECUTIVE_ABSENCES);
+  const [template, setTemplate] = useState<WarningTemplate>(() => loadJson(TEMPLATE_KEY, DEFAULT_WARNING_TEMPLATE));
+  const [issued, setIssued] = useState<IssuedWarning[]>(() => loadJson(ISSUED_KEY, []));
+  const [showWarned, setShowWarned] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState(false);
+  const [previewId, setPreviewId] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => { localStorage.setItem(ABSENCES_KEY, String(consecutiveAbsences)); }, [consecutiveAbsences]);
+  useEffect(() => { localStorage.setItem(TEMPLATE_KEY, JSON.stringify(template)); }, [template]);
+  useEffect(() => { localStorage.setItem(ISSUED_KEY, JSON.stringify(issued)); }, [issued]);
+
+  const atRisk = useMemo(() => findAtRiskStudents(matrix, threshold, consecutiveAbsences), [matrix, threshold, consecutiveAbsences]);
+  const pendingOf = (student: AtRiskStudent) => student.breaches.filter(b => !isWarningIssued(issued, student.row.studentId, b));
+  // A letter names only the new breaches, or all of them when resending.
+  const letterBreaches = (student: AtRiskStudent) => {
+    const pending = pendingOf(student);
+    return pending.length > 0 ? pending : student.breaches;
+  };
+  const pendingCount = atRisk.filter(s => pendingOf(s).length > 0).length;
+  const visible = showWarned ? atRisk : atRisk.filter(s => pendingOf(s).length > 0);
+
+  const markIssued = (student: AtRiskStudent) => {
+    const now = Date.now();
+    const fresh = pendingOf(student).map(b => ({ studentId: student.row.studentId, breachKey: b.key, issuedAt: now }));
+    if (fresh.length > 0) setIssued(prev => [...prev, ...fresh]);
+  };
+
+  const handleCopy = async (student: AtRiskStudent) => {
+    const breaches = letterBreaches(student);
+    const letter = `${fillTemplate(template.subject, student, breaches)}\n\n${fillTemplate(template.body, student, breaches)}`;
+    try {
+      await navigator.clipboard.writeText(letter);
+      markIssued(student);
+      setNotice(`Letter for ${student.row.studentId} copied.`);
+    } catch (e) {
+      setPreviewId(student.row.studentId);
+      setNotice('Copying is blocked in this browser. Select the letter below instead.');
+    }
+  };
+
+  const lastIssued = (student: AtRiskStudent) => {
+    const times = issued.filter(w => w.studentId === student.row.studentId).map(w => w.issuedAt);
+    return times.length > 0 ? Math.max(...times) : 0;
+  };
+
+  return (
+    <div className="p-6 space-y-4 text-xs text-gray-700">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          Warn after
+          <input type="number" min={2} value={consecutiveAbsences} onChange={(e) => setConsecutiveAbsences(Math.max(2, Math.floor(Number(e.target.value) || 0)))} className="w-12 border border-gray-300 rounded px-1 py-1" />
+          consecutive absences, or below {threshold}% overall
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={showWarned} onChange={(e) => setShowWarned(e.target.checked)} />
+          Show already warned
+        </label>
+        <div className="flex-1" />
+        <button onClick={() => setEditingTemplate(v => !v)} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">{editingTemplate ? 'Done Editing' : 'Edit Template'}</button>
+      </div>
+
+      {editingTemplate && (
+        <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-2">
+          <input type="text" value={template.subject} onChange={(e) => setTemplate({ ...template, subject: e.target.value })} className="w-full border border-gray-300 rounded px-2 py-1.5" placeholder="Subject" />
+          <textarea value={template.body} onChange={(e) => setTemplate({ ...template, body: e.target.value })} rows={10} className="w-full border border-gray-300 rounded px-2 py-1.5 font-mono" />
+          <div className="flex flex-wrap items-center gap-1 text-gray-500">
+            Placeholders:
+            {TEMPLATE_FIELDS.map(f => <code key={f} className="px-1 bg-white border border-gray-200 rounded">{`{${f}}`}</code>)}
+            <div className="flex-1" />
+            <button onClick={() => setTemplate(DEFAULT_WARNING_TEMPLATE)} className="text-red-600 underline">Reset to default</button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="text-green-700">{notice}</p>}
+      <p className="font-bold text-gray-900">{pendingCount === 0 ? 'Nobody needs a new warning.' : `${pendingCount} student${pendingCount === 1 ? '' : 's'} to warn.`}</p>
+
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {visible.map(student => {
+          const pending = pendingOf(student);
+          const warnedAt = lastIssued(student);
+          return (
+            <div key={student.row.studentId} className="p-3 space-y-2">
+              <div className="flex flex-wrap items-start gap-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <div className="font-bold text-gray-900">{student.row.name || student.row.studentId} <span className="font-mono font-normal text-gray-500">{student.row.studentId}</span></div>
+                  <ul className="mt-1 space-y-0.5">
+                    {student.breaches.map(b => (
+                      <li key={b.key} className={isWarningIssued(issued, student.row.studentId, b) ? 'text-gray-400' : 'text-red-700'}>
+                        {b.description}{isWarningIssued(issued, student.row.studentId, b) ? ' (warned)' : ''}
+                      </li>
+                    ))}
+                  </ul>
+                  {warnedAt > 0 && <div className="text-gray-400 mt-1">Last warned {formatDate(warnedAt)}</div>}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <a href={warningMailto(template, student, letterBreaches(student))} onClick={() => markIssued(student)} className="px-3 py-1.5 rounded-md bg-brand-primary text-white font-bold hover:bg-brand-secondary">Email</a>
+                  <button onClick={() => handleCopy(student)} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">Copy Letter</button>
+                  <button onClick={() => setPreviewId(previewId === student.row.studentId ? '' : student.row.studentId)} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">Preview</button>
+                  {pending.length > 0 && <button onClick={() => markIssued(student)} className="px-3 py-1.5 text-gray-500 underline">Mark as warned</button>}
+                </div>
+              </div>
+              {previewId === student.row.studentId && (
+                <pre className="p-3 bg-gray-50 border border-gray-200 rounded whitespace-pre-wrap font-sans select-all">
+                  {fillTemplate(template.subject, student, letterBreaches(student))}{'\n\n'}{fillTemplate(template.body, student, letterBreaches(student))}
+                </pre>
+              )}
+            </div>
+          );
+        })}
+        {visible.length === 0 && <p className="p-3 text-gray-500">No students match the warning rules for these weeks.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import type { Session } from '../types';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { sessionLabel } from './SessionPanel';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '../attendanceStatus';
+import { AUDIT_ACTION_LABELS, AUDIT_SOURCE_LABELS, auditToCsv, filterAudit } from '../audit';
+import type { AuditAction, AuditEntry, AuditSource } from '../audit';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  sessions: Session[];
+  activeSessionId: string;
+  // Name recorded for changes made on this device.
+  actor: string;
+  onActorChange: (actor: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const StatusBadge: React.FC<{ status?: AuditEntry['oldStatus'] }> = ({ status }) => status
+  ? <span className={`inline-flex px-1.5 py-0.5 rounded font-medium ${STATUS_BADGE_CLASSES[status]}`} title={STATUS_LABELS[status]}>{status}</span>
+  : <span className="text-gray-400">none</span>;
+
+export const AuditLog: React.FC<AuditLogProps> = ({ entries, sessions, activeSessionId, actor, onActorChange, onClose }) => {
+  const [sessionId, setSessionId] = useState(activeSessionId);
+  const [studentId, setStudentId] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [source, setSource] = useState<AuditSource | ''>('');
+
+  const labels = useMemo(() => new Map(sessions.map(s => [s.id, sessionLabel(s)])), [sessions]);
+  const labelOf = (id: string) => labels.get(id) || id;
+  const visible = useMemo(
+    () => filterAudit(entries, { sessionId, studentId, action: action || undefined, source: source || undefined }),
+    [entries, sessionId, studentId, action, source]);
+
+  const handleExportCSV = () => {
+    if (visible.length === 0) return;
+    const blob = new Blob(["\ufeff" + auditToCsv(visible, labelOf)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `attendance-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">Audit Log</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3 text-xs text-gray-700">
+          <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className="border border-gray-300 rounded px-2 py-1 bg-white">
+            <option value="">All sessions</option>
+            {sessions.map(s => <option key={s.id} value={s.id}>{sessionLabel(s)}</option>)}
+          </select>
+          <input type="text" value={studentId} onChange={(e) => setStudentId(e.target.value.toUpperCase())} placeholder="Student ID" className="w-32 border border-gray-300 rounded px-2 py-1 uppercase" />
+          <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')} className="border border-gray-300 rounded px-2 py-1 bg-white">
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select value={source} onChange={(e) => setSource(e.target.value as AuditSource | '')} className="border border-gray-300 rounded px-2 py-1 bg-white">
+            <option value="">All sources</option>
+            {(Object.keys(AUDIT_SOURCE_LABELS) as AuditSource[]).map(s => <option key={s} value={s}>{AUDIT_SOURCE_LABELS[s]}</option>)}
+          </select>
+          <div className="flex-1" />
+          <label className="flex items-center gap-1" title="Recorded as the actor of changes made on this device">
+            Your name
+            <input type="text" value={actor} onChange={(e) => onActorChange(e.target.value)} className="w-32 border border-gray-300 rounded px-2 py-1" />
+          </label>
+          <button onClick={handleExportCSV} disabled={visible.length === 0} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-brand-primary text-white font-bold hover:bg-brand-secondary disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {visible.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No changes recorded{entries.length > 0 ? ' for these filters' : ' on this device yet'}. Phone scans are logged in the backend's Audit sheet.</p>
+          ) : (
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 font-bold">Time</th>
+                  {!sessionId && <th className="px-3 py-2 font-bold">Session</th>}
+                  <th className="px-3 py-2 font-bold">Action</th>
+                  <th className="px-3 py-2 font-bold">Student ID</th>
+                  <th className="px-3 py-2 font-bold">Change</th>
+                  <th className="px-3 py-2 font-bold">Source</th>
+                  <th className="px-3 py-2 font-bold">Actor</th>
+                  <th className="px-3 py-2 font-bold">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-700">
+                {visible.map(e => (
+                  <tr key={e.id}>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{formatTime(e.at)}</td>
+                    {!sessionId && <td className="px-3 py-1.5 whitespace-nowrap">{labelOf(e.sessionId)}</td>}
+                    <td className="px-3 py-1.5">{AUDIT_ACTION_LABELS[e.action]}</td>
+                    <td className="px-3 py-1.5 font-mono font-bold">{e.studentId}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap"><StatusBadge status={e.oldStatus} /> &rarr; <StatusBadge status={e.newStatus} /></td>
+                    <td className="px-3 py-1.5">{AUDIT_SOURCE_LABELS[e.source]}</td>
+                    <td className="px-3 py-1.5">{e.actor}</td>
+                    <td className="px-3 py-1.5">{e.reason || ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  // Red confirm button, for changes that hide or remove records.
+  destructive?: boolean;
+  // Called with the optional reason typed in, which goes into the audit log.
+  onConfirm: (reason?: string) => void;
+  onCancel: () => void;
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, destructive = false, onConfirm, onCancel }) => {
+  const [reason, setReason] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+        <form onSubmit={(e) => { e.preventDefault(); onConfirm(reason.trim() || undefined); }} className="p-6 space-y-4">
+          <p className="text-sm text-gray-700">{message}</p>
+          <label className="block text-xs font-semibold text-gray-600">Reason (optional, kept in the audit log)
+            <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} autoFocus placeholder="e.g. Medical certificate" className="mt-1 block w-full border border-gray-300 rounded-md p-2 text-sm font-normal" />
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" className={`flex-1 py-2 text-white rounded font-bold ${destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-brand-primary hover:bg-brand-secondary'}`}>{confirmLabel}</button>
+            <button type="button" onClick={onCancel} className="flex-1 py-2 bg-gray-200 text-gray-700 rounded font-bold">Cancel</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { AttendanceBackend } from '../backends';
+import { BACKEND_LABELS } from '../backends';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { InfoIcon } from './icons/InfoIcon';
+import { runConnectionCheck } from '../connectionCheck';
+import type { CheckItem, ConnectionCheckOptions } from '../connectionCheck';
+
+interface ConnectionCheckProps extends ConnectionCheckOptions {
+  backend: AttendanceBackend;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<CheckItem['status'], string> = {
+  ok: 'text-green-600',
+  warn: 'text-yellow-600',
+  fail: 'text-red-600',
+};
+
+export const ConnectionCheck: React.FC<ConnectionCheckProps> = ({ backend, onClose, expectedVersion, expectedSheets, signingKey, pendingSyncCount }) => {
+  const [items, setItems] = useState<CheckItem[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkedAt, setCheckedAt] = useState(0);
+  // Read at check time, so a queue draining in the background does not restart the check.
+  const optionsRef = useRef<ConnectionCheckOptions>({ expectedVersion, expectedSheets, signingKey, pendingSyncCount });
+  optionsRef.current = { expectedVersion, expectedSheets, signingKey, pendingSyncCount };
+
+  const check = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setItems(await runConnectionCheck(backend, optionsRef.current));
+    } catch (e) {
+      setItems([{ id: 'reachable', label: 'Connection', status: 'fail', detail: e instanceof Error ? e.message : String(e) }]);
+    } finally {
+      setCheckedAt(Date.now());
+      setIsChecking(false);
+    }
+  }, [backend]);
+
+  useEffect(() => { check(); }, [check]);
+
+  const failures = items ? items.filter(i => i.status === 'fail').length : 0;
+  const warnings = items ? items.filter(i => i.status === 'warn').length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">Pre-class Check</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-gray-500">{BACKEND_LABELS[backend.kind]}{checkedAt > 0 && !isChecking ? ` · checked ${new Date(checkedAt).toLocaleTimeString()}` : ''}</p>
+          {isChecking && !items && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-brand-primary"></div>
+              Checking the connection...
+            </div>
+          )}
+          {items && (
+            <ul className="space-y-3">
+              {items.map(item => (
+                <li key={item.id} className="flex items-start gap-3">
+                  {item.status === 'ok' && <CheckCircleIcon className={`w-5 h-5 flex-shrink-0 ${STATUS_STYLES.ok}`} />}
+                  {item.status === 'warn' && <InfoIcon className={`w-5 h-5 flex-shrink-0 ${STATUS_STYLES.warn}`} />}
+                  {item.status === 'fail' && <XCircleIcon className={`w-5 h-5 flex-shrink-0 ${STATUS_STYLES.fail}`} />}
+                  <div>
+                    <p className="text-sm font-bold text-gray-900">{item.label}</p>
+                    <p className="text-xs text-gray-600">{item.detail}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {items && (
+            <p className={`text-sm font-bold ${failures > 0 ? 'text-red-700' : warnings > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+              {failures > 0 ? 'Fix the failed checks before class, or scans will not be saved.' : warnings > 0 ? 'Ready, with warnings.' : 'Ready for class.'}
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={check} disabled={isChecking} className="px-4 py-2 rounded-md border border-gray-300 text-sm font-bold hover:bg-gray-50 disabled:opacity-50">{isChecking ? 'Checking...' : 'Run Again'}</button>
+            <button onClick={onClose} className="px-4 py-2 rounded-md bg-brand-primary text-white text-sm font-bold hover:bg-brand-secondary">Done</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,132 +1,816 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { InfoIcon } from './icons/InfoIcon';
+import { TOKEN_CLOCK_SKEW_MS, TOKEN_MAX_AGE_MS } from '../tokenTiming';
+import { DEFAULT_SHEET_LAYOUT, toScriptLayout } from '../sheetLayout';
+import type { SheetLayout } from '../sheetLayout';
 
-const appScriptCode = `
+// Reported by the script's ping, so the app can tell when a deployment is out of date.
+export const APPS_SCRIPT_VERSION = '4.7';
+
+/** The Apps Script with the given sheet layout filled in. */
+export const buildAppScriptCode = (layout: SheetLayout) => `
 /**
- * HIGH-CONCURRENCY ATTENDANCE SCRIPT (v3.1)
+ * HIGH-CONCURRENCY ATTENDANCE SCRIPT (v${APPS_SCRIPT_VERSION})
  * Optimized for 200-300 simultaneous requests.
+ *
+ * Writes are only accepted once the TOKEN_SECRET script property is set
+ * (Project Settings > Script Properties). Use the signing key shown in the app.
  */
 
-function getFormattedDate() {
-  return Utilities.formatDate(new Date(), Session.getScriptTimeZone(), "dd/MM/yyyy");
+// Generated from the sheet layout in the app: change it there and copy the
+// script again rather than editing it here. Columns are numbers (A = 1).
+var SHEET_LAYOUT = ${JSON.stringify(toScriptLayout(layout), null, 2)};
+
+var SCRIPT_VERSION = "${APPS_SCRIPT_VERSION}";
+
+// Ranges always reach this far below the first student row, so a new student
+// can take an empty row without the sheet having to grow.
+var SPARE_ROWS = 236;
+
+// Submissions may sit in a student's retry queue for a while on busy days,
+// so the server accepts older tokens than the 60s the phone does, but not for
+// long, as a shared link could be replayed until then. The same limits as the app.
+var TOKEN_MAX_AGE_MS = ${TOKEN_MAX_AGE_MS};
+var TOKEN_CLOCK_SKEW_MS = ${TOKEN_CLOCK_SKEW_MS};
+
+// Verification code shown next to the QR (token flag 1). A code is accepted
+// from one window before the scan until a couple of minutes after it.
+var TOKEN_FLAG_CODE = 1;
+var CODE_WINDOW_MS = 30 * 1000;
+var CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+// Scans are judged against the geofence signed into their token. GPS indoors
+// is often off by tens of metres, so up to this much of the reported accuracy
+// is forgiven.
+var MAX_ACCURACY_ALLOWANCE_METERS = 50;
+
+// P = present, L = late, A = absent, E = excused
+var VALID_STATUSES = ["P", "L", "A", "E"];
+// What a QR token alone may record; anything else needs the teacher's signature.
+var SCAN_STATUSES = ["P", "L"];
+
+// Writes from the teacher's device carry "teacherSig", an HMAC over every other
+// field keyed with a secret derived from TOKEN_SECRET that no QR token is signed with.
+var TEACHER_WRITE_CONTEXT = "teacher-writes";
+var UNSIGNED_FIELDS = ["taskId", "teacherSig"];
+
+// Each app session writes to the date column of the day it started. The label
+// is remembered the first time the session is written, so editing a past or
+// closed session later finds that column again instead of today's.
+var SESSION_COLUMN_PREFIX = "SESSION_COLUMN_";
+// Set while the teacher has a session closed; its QR check-ins are refused.
+var SESSION_CLOSED_PREFIX = "SESSION_CLOSED_";
+
+function getFormattedDate(ms) {
+  return Utilities.formatDate(ms ? new Date(ms) : new Date(), Session.getScriptTimeZone(), SHEET_LAYOUT.dateFormat);
 }
 
-function getSheetConfigs() {
-  return [
-    { name: "W1-W5", dateRow: 12, startCol: 15, endCol: 20 },
-    { name: "W6-W10", dateRow: 12, startCol: 11, endCol: 20 },
-    { name: "W11-W14", dateRow: 12, startCol: 11, endCol: 20 }
-  ];
+// The date label of a session's column: the one it was first written to, else
+// the day it started. Empty when neither is known.
+function sessionLabel(sessionId, startMs) {
+  var saved = sessionId ? PropertiesService.getScriptProperties().getProperty(SESSION_COLUMN_PREFIX + sessionId) : null;
+  if (saved) return saved;
+  return startMs ? getFormattedDate(startMs) : "";
 }
 
-function doPost(e) {
-  var lock = LockService.getScriptLock();
+function toHex(bytes) {
+  return bytes.map(function(b) {
+    var v = (b < 0 ? b + 256 : b).toString(16);
+    return v.length === 1 ? "0" + v : v;
+  }).join("");
+}
+
+function verificationCode(sessionSecret, sessionId, windowIndex) {
+  var bytes = Utilities.computeHmacSha256Signature("code." + sessionId + "." + windowIndex.toString(36), sessionSecret);
+  var code = "";
+  for (var i = 0; i < 4; i++) code += CODE_ALPHABET.charAt((bytes[i] < 0 ? bytes[i] + 256 : bytes[i]) % CODE_ALPHABET.length);
+  return code;
+}
+
+// Token geofences are lat_lng_radius_policy: degrees in millionths, metres,
+// and r (reject) or f (flag).
+function parseGeofence(value) {
+  var match = /^(-?[0-9]+)_(-?[0-9]+)_([0-9]+)_([rf])$/.exec(String(value || ""));
+  if (!match || !(Number(match[3]) > 0)) return null;
+  return { latitude: Number(match[1]) / 1e6, longitude: Number(match[2]) / 1e6, radiusMeters: Number(match[3]), policy: match[4] === "r" ? "reject" : "flag" };
+}
+
+function distanceMeters(a, b) {
+  var toRadians = function(deg) { return deg * Math.PI / 180; };
+  var dLat = toRadians(b.latitude - a.latitude);
+  var dLon = toRadians(b.longitude - a.longitude);
+  var h = Math.pow(Math.sin(dLat / 2), 2) + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.pow(Math.sin(dLon / 2), 2);
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+// The distance is measured here, not taken from the phone. Under "reject" a
+// scan from outside, or without a location, is refused; under "flag" it is
+// kept with the reason.
+function checkScanLocation(geofence, location) {
+  if (!location) {
+    return geofence.policy === "reject" ? { ok: false, reason: "Scan location is required for this class" } : { ok: true, distance: "", flag: "No location" };
+  }
+  var distance = Math.round(distanceMeters(geofence, location));
+  if (distance <= geofence.radiusMeters + Math.min(location.accuracy, MAX_ACCURACY_ALLOWANCE_METERS)) return { ok: true, distance: distance, flag: "" };
+  if (geofence.policy === "reject") return { ok: false, reason: "Scan location is outside the classroom (" + distance + " m)" };
+  return { ok: true, distance: distance, flag: "Outside (" + distance + " m)" };
+}
+
+// Tokens are sessionId.issuedAt.lateAt[.flags[.geofence]].signature. When checkCode is
+// true and the token asks for a verification code, "code" must match it.
+// TOKEN_SECRET is the secret shared with the teacher's app: phones carry a QR
+// token signed with it and the app signs its own writes with a key derived
+// from it, so until it is set every write is rejected.
+function verifyToken(token, code, checkCode) {
+  var secret = PropertiesService.getScriptProperties().getProperty("TOKEN_SECRET");
+  if (!secret) return { valid: false, reason: "TOKEN_SECRET is not set in the script properties" };
+
+  var parts = String(token || "").split(".");
+  if (parts.length < 4 || parts.length > 6) return { valid: false, reason: "Missing or malformed QR token" };
+
+  var issuedAt = parseInt(parts[1], 36);
+  var lateAt = parseInt(parts[2], 36);
+  var flags = parts.length >= 5 ? parseInt(parts[3], 36) : 0;
+  var geofence = parts.length === 6 ? parseGeofence(parts[4]) : null;
+  if (parts.length === 6 && !geofence) return { valid: false, reason: "Missing or malformed QR token" };
+  var age = new Date().getTime() - issuedAt;
+  if (isNaN(issuedAt) || isNaN(lateAt) || isNaN(flags) || age < -TOKEN_CLOCK_SKEW_MS) return { valid: false, reason: "Invalid QR token time" };
+  if (age > TOKEN_MAX_AGE_MS) return { valid: false, reason: "Expired QR token" };
+
+  var sessionSecret = toHex(Utilities.computeHmacSha256Signature(parts[0], secret));
+  var sig = Utilities.computeHmacSha256Signature(parts.slice(0, parts.length - 1).join("."), sessionSecret).slice(0, 16);
+  var expected = Utilities.base64EncodeWebSafe(sig).replace(/=+$/, "");
+  if (expected !== parts[parts.length - 1]) return { valid: false, reason: "Invalid QR token signature" };
+
+  if (checkCode && (flags & TOKEN_FLAG_CODE)) {
+    var given = String(code || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+    if (!given) return { valid: false, reason: "Missing verification code" };
+    var first = Math.floor(issuedAt / CODE_WINDOW_MS);
+    var matched = false;
+    for (var w = first - 1; w <= first + 4 && !matched; w++) matched = verificationCode(sessionSecret, parts[0], w) === given;
+    if (!matched) return { valid: false, reason: "Wrong verification code" };
+  }
+  return { valid: true, sessionId: parts[0], issuedAt: issuedAt, lateAt: lateAt, geofence: geofence };
+}
+
+// A whole class may scan the same QR, but each phone may only use it for one
+// student, so a shared link cannot check in friends from that phone. The same
+// student again is a retry and passes. The device ID has been checked against
+// the device's signature, and an empty one would be shared by every phone that
+// sends none. The script cache keeps each use until the token has expired anyway.
+function redeemToken(token, deviceId, studentId) {
+  if (!deviceId) return false;
+  var cache = CacheService.getScriptCache();
+  var key = "redeemed:" + String(token).split(".").pop() + ":" + String(deviceId || "").slice(0, 64);
+  var used = cache.get(key);
+  if (used) return used === studentId;
+  cache.put(key, studentId, Math.ceil((TOKEN_MAX_AGE_MS + TOKEN_CLOCK_SKEW_MS) / 1000));
+  return true;
+}
+
+// Phones sign "check-in.<token>.<studentId>" with a P-256 key they cannot
+// export, and their device ID is a hash of the public key. Apps Script has no
+// way to verify such a signature, so this is plain ECDSA in Jacobian
+// coordinates on BigInt.
+var DEVICE_ID_LENGTH = 16;
+var P256_P = BigInt("0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff");
+var P256_N = BigInt("0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551");
+var P256_B = BigInt("0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b");
+var P256_G = [
+  BigInt("0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296"),
+  BigInt("0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5"),
+  BigInt(1)
+];
+
+function modP(a, m) {
+  var r = a % m;
+  return r < BigInt(0) ? r + m : r;
+}
+
+function modInverse(a, m) {
+  var t = BigInt(0), newT = BigInt(1), r = m, newR = modP(a, m);
+  while (newR !== BigInt(0)) {
+    var q = r / newR;
+    var nextT = t - q * newT; t = newT; newT = nextT;
+    var nextR = r - q * newR; r = newR; newR = nextR;
+  }
+  return modP(t, m);
+}
+
+// Points are [X, Y, Z] with x = X/Z^2, y = Y/Z^3; null is the point at infinity.
+function pointDouble(pt) {
+  if (!pt || pt[1] === BigInt(0)) return null;
+  var p = P256_P;
+  var delta = modP(pt[2] * pt[2], p);
+  var gamma = modP(pt[1] * pt[1], p);
+  var beta = modP(pt[0] * gamma, p);
+  var alpha = modP(BigInt(3) * (pt[0] - delta) * (pt[0] + delta), p);
+  var x3 = modP(alpha * alpha - BigInt(8) * beta, p);
+  var z3 = modP((pt[1] + pt[2]) * (pt[1] + pt[2]) - gamma - delta, p);
+  var y3 = modP(alpha * (BigInt(4) * beta - x3) - BigInt(8) * gamma * gamma, p);
+  return [x3, y3, z3];
+}
+
+function pointAdd(a, b) {
+  if (!a) return b;
+  if (!b) return a;
+  var p = P256_P;
+  var z1z1 = modP(a[2] * a[2], p), z2z2 = modP(b[2] * b[2], p);
+  var u1 = modP(a[0] * z2z2, p), u2 = modP(b[0] * z1z1, p);
+  var s1 = modP(a[1] * b[2] * z2z2, p), s2 = modP(b[1] * a[2] * z1z1, p);
+  var h = modP(u2 - u1, p), r = modP(BigInt(2) * (s2 - s1), p);
+  if (h === BigInt(0)) return r === BigInt(0) ? pointDouble(a) : null;
+  var i = modP(BigInt(4) * h * h, p);
+  var j = modP(h * i, p);
+  var v = modP(u1 * i, p);
+  var x3 = modP(r * r - j - BigInt(2) * v, p);
+  var y3 = modP(r * (v - x3) - BigInt(2) * s1 * j, p);
+  var z3 = modP(((a[2] + b[2]) * (a[2] + b[2]) - z1z1 - z2z2) * h, p);
+  return [x3, y3, z3];
+}
+
+// u1*G + u2*Q in one pass over the bits.
+function mulAdd(u1, u2, q) {
+  var both = pointAdd(P256_G, q);
+  var result = null;
+  for (var bit = 255; bit >= 0; bit--) {
+    result = pointDouble(result);
+    var mask = BigInt(1) << BigInt(bit);
+    var b1 = (u1 & mask) !== BigInt(0), b2 = (u2 & mask) !== BigInt(0);
+    if (b1 && b2) result = pointAdd(result, both);
+    else if (b1) result = pointAdd(result, P256_G);
+    else if (b2) result = pointAdd(result, q);
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes) {
+  return BigInt("0x" + (toHex(bytes) || "0"));
+}
+
+function decodeBase64Url(value) {
+  var text = String(value || "");
+  while (text.length % 4) text += "=";
   try {
-    // Increase wait time for the lock to 30s to handle 200+ users
-    lock.waitLock(30000); 
-    
-    var doc = SpreadsheetApp.getActiveSpreadsheet();
-    var data = {};
-    try {
-      if (e.postData) data = JSON.parse(e.postData.contents);
-    } catch(err) {
-      data = e.parameter || {};
+    return Utilities.base64DecodeWebSafe(text);
+  } catch (err) {
+    return [];
+  }
+}
+
+function verifyP256(publicKey, message, signature) {
+  if (publicKey.length !== 65 || (publicKey[0] & 255) !== 4 || signature.length !== 64) return false;
+  var x = bytesToBigInt(publicKey.slice(1, 33)), y = bytesToBigInt(publicKey.slice(33));
+  if (x >= P256_P || y >= P256_P || modP(y * y - (x * x * x - BigInt(3) * x + P256_B), P256_P) !== BigInt(0)) return false;
+  var r = bytesToBigInt(signature.slice(0, 32)), s = bytesToBigInt(signature.slice(32));
+  if (r < BigInt(1) || r >= P256_N || s < BigInt(1) || s >= P256_N) return false;
+  var e = bytesToBigInt(Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, message, Utilities.Charset.UTF_8));
+  var w = modInverse(s, P256_N);
+  var point = mulAdd(modP(e * w, P256_N), modP(r * w, P256_N), [x, y, BigInt(1)]);
+  if (!point) return false;
+  var zInv = modInverse(point[2], P256_P);
+  return modP(modP(point[0] * zInv * zInv, P256_P), P256_N) === r;
+}
+
+function verifyDeviceSignature(data, studentId) {
+  var publicKey = decodeBase64Url(data.devicePublicKey);
+  var signature = decodeBase64Url(data.deviceSig);
+  if (publicKey.length === 0 || signature.length === 0) return { valid: false, reason: "Device signature required" };
+  var deviceId = toHex(Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, publicKey)).slice(0, DEVICE_ID_LENGTH);
+  if (deviceId !== String(data.deviceId || "") || !verifyP256(publicKey, "check-in." + String(data.token || "") + "." + studentId, signature)) {
+    return { valid: false, reason: "Invalid device signature" };
+  }
+  return { valid: true };
+}
+
+function verifyTeacherSignature(data) {
+  var secret = PropertiesService.getScriptProperties().getProperty("TOKEN_SECRET");
+  if (!secret) return { valid: false, reason: "TOKEN_SECRET is not set in the script properties" };
+  var payload = Object.keys(data).filter(function(key) {
+    return UNSIGNED_FIELDS.indexOf(key) === -1;
+  }).sort().map(function(key) {
+    return encodeURIComponent(key) + "=" + encodeURIComponent(String(data[key] === undefined || data[key] === null ? "" : data[key]));
+  }).join("&");
+  var teacherSecret = toHex(Utilities.computeHmacSha256Signature(TEACHER_WRITE_CONTEXT, secret));
+  var sig = Utilities.computeHmacSha256Signature(payload, teacherSecret).slice(0, 16);
+  if (Utilities.base64EncodeWebSafe(sig).replace(/=+$/, "") !== String(data.teacherSig || "")) return { valid: false, reason: "Invalid teacher signature" };
+  return { valid: true };
+}
+
+function getSheetConfigs() {
+  return SHEET_LAYOUT.sheets;
+}
+
+// Number of student rows to read, from the first student row down to lastRow.
+function studentRowCount(sheet, lastRow) {
+  return Math.max(sheet.getLastRow(), lastRow, SHEET_LAYOUT.firstRow) - SHEET_LAYOUT.firstRow + 1;
+}
+
+// Student IDs and names, one [value] per row like getValues returns.
+function readStudents(sheet, numRows) {
+  return {
+    ids: sheet.getRange(SHEET_LAYOUT.firstRow, SHEET_LAYOUT.idColumn, numRows, 1).getValues(),
+    names: sheet.getRange(SHEET_LAYOUT.firstRow, SHEET_LAYOUT.nameColumn, numRows, 1).getValues()
+  };
+}
+
+// Class list for the student check-in autocomplete.
+function readRoster() {
+  var doc = SpreadsheetApp.getActiveSpreadsheet();
+  var configs = getSheetConfigs();
+  for (var i = 0; i < configs.length; i++) {
+    var sheet = doc.getSheetByName(configs[i].name);
+    if (!sheet) continue;
+    var students = readStudents(sheet, studentRowCount(sheet, 0));
+    var roster = [];
+    for (var r = 0; r < students.ids.length; r++) {
+      var id = String(students.ids[r][0]).toUpperCase().trim();
+      var name = String(students.names[r][0]).toUpperCase().trim();
+      if (id && name) roster.push({ id: id, name: name });
     }
-    
-    var studentId = String(data.studentId || "").toUpperCase().trim();
-    var studentName = String(data.name || "").toUpperCase().trim();
-    var status = data.status || 'P';
-    var dateStr = getFormattedDate();
+    return roster;
+  }
+  return [];
+}
 
-    if (!studentId) throw "Missing Student ID";
+// Date header of a sheet column as a timestamp: a real date, or text in SHEET_LAYOUT.dateFormat.
+function headerTime(value, label) {
+  if (value instanceof Date) return value.getTime();
+  var order = SHEET_LAYOUT.dateFormat.split(/[^dMy]+/);
+  var numbers = label.match(/[0-9]+/g) || [];
+  if (order.length !== 3 || numbers.length !== 3) return 0;
+  var parts = {};
+  for (var i = 0; i < 3; i++) parts[order[i].charAt(0)] = Number(numbers[i]);
+  var date = new Date(parts.y, parts.M - 1, parts.d);
+  return isNaN(date.getTime()) ? 0 : date.getTime();
+}
 
-    var configs = getSheetConfigs();
-    var targetSheet, targetCol, isNewDate = true;
+// Every date column across the attendance sheets, for the attendance history report.
+// Students without a mark in a column are left out of its entries.
+function readHistory() {
+  var doc = SpreadsheetApp.getActiveSpreadsheet();
+  var configs = getSheetConfigs();
+  var sessions = [];
+  var names = {};
+  var entries = [];
+  var seen = {};
+  for (var i = 0; i < configs.length; i++) {
+    var conf = configs[i];
+    var sheet = doc.getSheetByName(conf.name);
+    if (!sheet) continue;
 
-    // 1. Find sheet and column (Cached approach)
-    for (var i = 0; i < configs.length; i++) {
-      var conf = configs[i];
-      var sheet = doc.getSheetByName(conf.name);
-      if (!sheet) continue;
-      
-      var headerValues = sheet.getRange(conf.dateRow, conf.startCol, 1, conf.endCol - conf.startCol + 1).getDisplayValues()[0];
-      
-      // Look for current date
-      for (var c = 0; c < headerValues.length; c++) {
-        if (headerValues[c].trim() === dateStr) {
-          targetSheet = sheet;
-          targetCol = conf.startCol + c;
-          isNewDate = false;
-          break;
-        }
-      }
-      if (targetSheet) break;
+    var width = conf.endCol - conf.startCol + 1;
+    var header = sheet.getRange(SHEET_LAYOUT.dateRow, conf.startCol, 1, width);
+    var labels = header.getDisplayValues()[0];
+    var dates = header.getValues()[0];
+    var numRows = studentRowCount(sheet, 0);
+    var people = readStudents(sheet, numRows);
+    var marks = sheet.getRange(SHEET_LAYOUT.firstRow, conf.startCol, numRows, width).getValues();
 
-      // Look for first available empty column
-      for (var c = 0; c < headerValues.length; c++) {
-        if (headerValues[c].trim() === "") {
-          targetSheet = sheet;
-          targetCol = conf.startCol + c;
-          break;
-        }
+    for (var r = 0; r < numRows; r++) {
+      var id = String(people.ids[r][0]).toUpperCase().trim();
+      if (id && !names[id]) names[id] = String(people.names[r][0]).toUpperCase().trim();
+    }
+    for (var c = 0; c < width; c++) {
+      var label = labels[c].trim();
+      if (!label || seen[label]) continue;
+      seen[label] = true;
+      sessions.push({ id: label, label: label, startTime: headerTime(dates[c], label) });
+      for (var r = 0; r < numRows; r++) {
+        var studentId = String(people.ids[r][0]).toUpperCase().trim();
+        var stat = String(marks[r][c]).toUpperCase().trim();
+        if (studentId && VALID_STATUSES.indexOf(stat) !== -1) entries.push({ sessionId: label, studentId: studentId, status: stat });
       }
-      if (targetSheet) break;
     }
+  }
+  var students = Object.keys(names).map(function(id) { return { id: id, name: names[id] }; });
+  return { sessions: sessions, students: students, entries: entries };
+}
 
-    if (!targetSheet) throw "All attendance sheets (W1-W14) are full.";
+var DEVICE_HEADERS = ["Session", "Student ID", "Device ID", "Fingerprint", "Time", "Latitude", "Longitude", "Accuracy (m)", "Distance (m)", "Flag"];
 
-    if (isNewDate) {
-      targetSheet.getRange(12, targetCol).setValue(new Date()).setNumberFormat("dd/MM/yyyy");
+// One row per phone scan, so the teacher can spot one phone checking in several
+// students and audit where each scan came from.
+function logDevices(doc, accepted) {
+  var rows = [];
+  for (var a = 0; a < accepted.length; a++) {
+    var rec = accepted[a];
+    if (rec.remove || rec.stale) continue;
+    if (rec.deviceId || rec.deviceFingerprint || rec.latitude !== "" || rec.locationFlag) {
+      rows.push([rec.sessionId, rec.studentId, rec.deviceId, rec.deviceFingerprint, new Date(), rec.latitude, rec.longitude, rec.accuracy, rec.distance, rec.locationFlag]);
     }
+  }
+  if (rows.length === 0) return;
+  var sheet = doc.getSheetByName("Devices");
+  if (!sheet) sheet = doc.insertSheet("Devices");
+  sheet.getRange(1, 1, 1, DEVICE_HEADERS.length).setValues([DEVICE_HEADERS]);
+  sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, DEVICE_HEADERS.length).setValues(rows);
+}
 
-    // 2. Find or Add Student Row (Fast lookup)
-    var startRow = 14;
-    var lastRow = Math.max(targetSheet.getLastRow(), 250);
-    var ids = targetSheet.getRange(startRow, 2, lastRow - startRow + 1, 1).getValues();
-    
-    var studentRowAbs = -1;
-    for (var r = 0; r < ids.length; r++) {
-      var idInCell = String(ids[r][0]).toUpperCase().trim();
-      if (idInCell === studentId) {
-        studentRowAbs = startRow + r;
-        break;
+var AUDIT_HEADERS = ["Time", "Session", "Action", "Student ID", "Old Status", "New Status", "Source", "Actor", "Reason"];
+
+// Who changed which record, as described by the app; older apps send no
+// description and are logged with what the sheet knows.
+function auditRow(data, sessionId, studentId, oldStatus, newStatus) {
+  var action = newStatus ? (oldStatus ? "status" : "add") : "remove";
+  return [new Date(), sessionId, String(data.auditAction || action), studentId, oldStatus, newStatus,
+    String(data.auditSource || ""), String(data.auditActor || ""), String(data.auditReason || "")];
+}
+
+function appendAudit(doc, rows) {
+  if (rows.length === 0) return;
+  var sheet = doc.getSheetByName("Audit");
+  if (!sheet) sheet = doc.insertSheet("Audit");
+  sheet.getRange(1, 1, 1, AUDIT_HEADERS.length).setValues([AUDIT_HEADERS]);
+  sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, AUDIT_HEADERS.length).setValues(rows);
+}
+
+var DELETED_HEADERS = ["Session", "Student ID", "Time"];
+
+// Deleted records, so other devices drop their copy instead of keeping it
+// because the sheet no longer mentions it.
+function logDeletions(doc, accepted) {
+  var rows = [];
+  for (var a = 0; a < accepted.length; a++) {
+    if (accepted[a].remove && !accepted[a].stale) rows.push([accepted[a].sessionId, accepted[a].studentId, new Date()]);
+  }
+  if (rows.length === 0) return;
+  var sheet = doc.getSheetByName("Deleted");
+  if (!sheet) sheet = doc.insertSheet("Deleted");
+  sheet.getRange(1, 1, 1, DELETED_HEADERS.length).setValues([DELETED_HEADERS]);
+  sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, DELETED_HEADERS.length).setValues(rows);
+}
+
+// Latest deletion time (ms) per student for one session.
+function readDeletions(doc, sessionId) {
+  var deleted = {};
+  var sheet = doc.getSheetByName("Deleted");
+  if (!sheet || !sessionId || sheet.getLastRow() < 2) return deleted;
+  var rows = sheet.getRange(2, 1, sheet.getLastRow() - 1, DELETED_HEADERS.length).getValues();
+  for (var r = 0; r < rows.length; r++) {
+    if (String(rows[r][0]) !== sessionId) continue;
+    deleted[String(rows[r][1]).toUpperCase()] = new Date(rows[r][2]).getTime();
+  }
+  return deleted;
+}
+
+// Records as an array for older apps, or with the session's tombstones when
+// asked: deletions of students who have no status today.
+function recordsOutput(params, records) {
+  if (!params.tombstones) return jsonOutput(records);
+  var present = {};
+  for (var r = 0; r < records.length; r++) present[String(records[r].studentId).toUpperCase()] = true;
+  var deleted = readDeletions(SpreadsheetApp.getActiveSpreadsheet(), params.sessionId);
+  var tombstones = [];
+  for (var id in deleted) {
+    if (!present[id]) tombstones.push({ studentId: id, deletedAt: deleted[id] });
+  }
+  return jsonOutput({ records: records, tombstones: tombstones });
+}
+
+// Latest device and location per student for one session.
+function readDevices(doc, sessionId) {
+  var devices = {};
+  var sheet = doc.getSheetByName("Devices");
+  if (!sheet || !sessionId || sheet.getLastRow() < 2) return devices;
+  var rows = sheet.getRange(2, 1, sheet.getLastRow() - 1, DEVICE_HEADERS.length).getValues();
+  for (var r = 0; r < rows.length; r++) {
+    if (String(rows[r][0]) !== sessionId) continue;
+    devices[String(rows[r][1])] = {
+      deviceId: String(rows[r][2]),
+      deviceFingerprint: String(rows[r][3]),
+      latitude: rows[r][5],
+      longitude: rows[r][6],
+      accuracy: rows[r][7],
+      distance: rows[r][8],
+      locationFlag: String(rows[r][9] || "")
+    };
+  }
+  return devices;
+}
+
+// Each status cell's note says when it was last set, for last writer wins.
+function versionNote(label, ms) {
+  return label + " " + new Date(ms).toISOString();
+}
+
+function noteTime(note) {
+  var at = new Date(String(note || "").replace(/^[A-Za-z]+ /, "")).getTime();
+  return isNaN(at) ? 0 : at;
+}
+
+function jsonOutput(obj) {
+  return ContentService.createTextOutput(JSON.stringify(obj)).setMimeType(ContentService.MimeType.JSON);
+}
+
+// Finds the column dated dateStr or, when allowNew, the first empty date column
+// if there is none yet.
+function findTargetColumn(doc, dateStr, allowNew) {
+  var configs = getSheetConfigs();
+  for (var i = 0; i < configs.length; i++) {
+    var conf = configs[i];
+    var sheet = doc.getSheetByName(conf.name);
+    if (!sheet) continue;
+
+    var headerValues = sheet.getRange(SHEET_LAYOUT.dateRow, conf.startCol, 1, conf.endCol - conf.startCol + 1).getDisplayValues()[0];
+
+    // Look for current date
+    for (var c = 0; c < headerValues.length; c++) {
+      if (headerValues[c].trim() === dateStr) return { sheet: sheet, col: conf.startCol + c, isNewDate: false };
+    }
+
+    // Look for first available empty column
+    for (var c = 0; c < headerValues.length && allowNew; c++) {
+      if (headerValues[c].trim() === "") return { sheet: sheet, col: conf.startCol + c, isNewDate: true };
+    }
+  }
+  return null;
+}
+
+// Validates and writes any number of records while holding the lock once.
+// Each column is read and written back as a single range with setValues.
+function writeRecords(records) {
+  var results = [];
+  var accepted = [];
+  var auditOnly = [];
+  // No device can claim a time still to come.
+  var nowMs = Date.now();
+
+  for (var i = 0; i < records.length; i++) {
+    var data = records[i] || {};
+    var studentId = String(data.studentId || "").toUpperCase().trim();
+    var status = String(data.status || "P").toUpperCase();
+    var sessionId = String(data.sessionId || "");
+    results.push({ id: String(data.taskId || i), result: "success" });
+
+    if (!studentId && data.kind !== "session") { results[i] = { id: results[i].id, result: "error", message: "Missing Student ID" }; continue; }
+    // Phones can only check themselves in, as present or late, with their QR
+    // token. Anything else must be signed on the teacher's device.
+    var byTeacher = data.teacherSig !== undefined;
+    if (byTeacher) {
+      var teacherCheck = verifyTeacherSignature(data);
+      if (!teacherCheck.valid) { results[i] = { id: results[i].id, result: "error", message: teacherCheck.reason }; continue; }
+    } else if (data.kind === "audit" || data.kind === "delete" || data.kind === "session") {
+      results[i] = { id: results[i].id, result: "error", message: "Teacher signature required" };
+      continue;
+    }
+    // Closing a session makes its QR check-ins fail from then on.
+    if (data.kind === "session") {
+      if (!sessionId) { results[i] = { id: results[i].id, result: "error", message: "Missing session ID" }; continue; }
+      var sessionProps = PropertiesService.getScriptProperties();
+      if (data.sessionStatus === "closed") sessionProps.setProperty(SESSION_CLOSED_PREFIX + sessionId, String(nowMs));
+      else sessionProps.deleteProperty(SESSION_CLOSED_PREFIX + sessionId);
+      continue;
+    }
+    // Scans are timed here, because phone clocks cannot be trusted.
+    var updatedAt = byTeacher ? Math.min(Number(data.updatedAt) || nowMs, nowMs) : nowMs;
+    // The teacher's device sends when the session started; a scan belongs to
+    // a session running now.
+    var label = sessionLabel(sessionId, byTeacher ? Number(data.sessionStart) || 0 : nowMs);
+    // Audit-only entries, from apps that could not sync deletions yet.
+    if (data.kind === "audit") {
+      auditOnly.push(auditRow(data, String(data.sessionId || ""), studentId, String(data.oldStatus || ""), String(data.newStatus || "")));
+      continue;
+    }
+    // Deletions clear the student's status in the session's column and leave a tombstone.
+    if (data.kind === "delete") {
+      if (!label) { results[i] = { id: results[i].id, result: "error", message: "Session date unknown for " + sessionId }; continue; }
+      accepted.push({ index: i, studentId: studentId, sessionId: sessionId, label: label, remove: true, updatedAt: updatedAt, data: data });
+      continue;
+    }
+    if (VALID_STATUSES.indexOf(status) === -1) { results[i] = { id: results[i].id, result: "error", message: "Invalid status: " + status }; continue; }
+
+    var latitude = data.latitude === undefined || data.latitude === "" ? "" : Number(data.latitude);
+    var longitude = data.longitude === undefined || data.longitude === "" ? "" : Number(data.longitude);
+    var accuracy = data.accuracy === undefined ? "" : Number(data.accuracy);
+    var distance = data.distance === undefined ? "" : Number(data.distance);
+    var locationFlag = "";
+
+    if (!byTeacher) {
+      if (SCAN_STATUSES.indexOf(status) === -1) { results[i] = { id: results[i].id, result: "error", message: "Teacher signature required for status " + status }; continue; }
+      var check = verifyToken(data.token, data.code, true);
+      if (!check.valid) { results[i] = { id: results[i].id, result: "error", message: check.reason }; continue; }
+      if (check.sessionId !== sessionId) {
+        sessionId = check.sessionId;
+        label = sessionLabel(sessionId, nowMs);
+      }
+      if (PropertiesService.getScriptProperties().getProperty(SESSION_CLOSED_PREFIX + sessionId)) {
+        results[i] = { id: results[i].id, result: "error", message: "Session is closed" };
+        continue;
+      }
+      // The late cut-off is signed into the token, so present or late is decided
+      // here from when the token was issued, whatever the phone claimed.
+      status = check.lateAt && check.issuedAt > check.lateAt ? "L" : "P";
+      var device = verifyDeviceSignature(data, studentId);
+      if (!device.valid) { results[i] = { id: results[i].id, result: "error", message: device.reason }; continue; }
+      if (check.geofence) {
+        var hasLocation = latitude !== "" && longitude !== "" && isFinite(latitude) && isFinite(longitude);
+        var located = checkScanLocation(check.geofence, hasLocation ? { latitude: latitude, longitude: longitude, accuracy: Number(accuracy) || 0 } : null);
+        if (!located.ok) { results[i] = { id: results[i].id, result: "error", message: located.reason }; continue; }
+        distance = located.distance;
+        locationFlag = located.flag;
       }
-      if (studentRowAbs === -1 && idInCell === "") {
-        studentRowAbs = startRow + r;
-        // Batch write student info to reduce API calls
-        targetSheet.getRange(studentRowAbs, 2, 1, 3).setValues([[studentId, "", studentName]]);
-        break;
+      if (!redeemToken(data.token, data.deviceId, studentId)) {
+        results[i] = { id: results[i].id, result: "error", message: "QR token was already used on this device for another student" };
+        continue;
       }
     }
+    if (!label) { results[i] = { id: results[i].id, result: "error", message: "Session date unknown for " + sessionId }; continue; }
 
-    // If still not found and sheet was full of other data
-    if (studentRowAbs === -1) {
-       studentRowAbs = lastRow + 1;
-       targetSheet.getRange(studentRowAbs, 2).setValue(studentId);
-       targetSheet.getRange(studentRowAbs, 4).setValue(studentName);
+    accepted.push({
+      index: i,
+      studentId: studentId,
+      name: String(data.name || "").toUpperCase().trim(),
+      status: status,
+      sessionId: sessionId,
+      label: label,
+      deviceId: String(data.deviceId || ""),
+      deviceFingerprint: String(data.deviceFingerprint || ""),
+      latitude: latitude,
+      longitude: longitude,
+      accuracy: accuracy,
+      distance: distance,
+      locationFlag: locationFlag,
+      updatedAt: updatedAt,
+      data: data
+    });
+  }
+  var doc = SpreadsheetApp.getActiveSpreadsheet();
+  appendAudit(doc, auditOnly);
+
+  var groups = {};
+  var labels = [];
+  for (var a = 0; a < accepted.length; a++) {
+    if (!groups[accepted[a].label]) { groups[accepted[a].label] = []; labels.push(accepted[a].label); }
+    groups[accepted[a].label].push(accepted[a]);
+  }
+  var remembered = {};
+  for (var g = 0; g < labels.length; g++) {
+    if (!writeColumn(doc, labels[g], groups[labels[g]], results)) continue;
+    for (var a = 0; a < groups[labels[g]].length; a++) remembered[SESSION_COLUMN_PREFIX + groups[labels[g]][a].sessionId] = labels[g];
+  }
+  if (Object.keys(remembered).length > 0) PropertiesService.getScriptProperties().setProperties(remembered);
+
+  // Explicitly flush to ensure data is written before lock release
+  SpreadsheetApp.flush();
+  return results;
+}
+
+// Writes the accepted records of one date column. Only today's column may be
+// started; false when the column does not exist.
+function writeColumn(doc, label, accepted, results) {
+  var hasWrites = false;
+  for (var a = 0; a < accepted.length; a++) if (!accepted[a].remove) hasWrites = true;
+  var isToday = label === getFormattedDate();
+  // Deletions alone never start a new date column; without one there is no
+  // status to clear, but the tombstone is still kept.
+  var target = findTargetColumn(doc, label, isToday && hasWrites);
+  if (!target) {
+    var removedRows = [];
+    for (var a = 0; a < accepted.length; a++) {
+      var rec = accepted[a];
+      if (rec.remove) removedRows.push(auditRow(rec.data, rec.sessionId, rec.studentId, "", ""));
+      else results[rec.index] = { id: results[rec.index].id, result: "error", message: isToday ? "All attendance sheets are full." : "No column for " + label + " in the attendance sheets" };
     }
+    logDeletions(doc, accepted);
+    appendAudit(doc, removedRows);
+    return false;
+  }
 
-    // 3. Mark the Attendance Status
-    targetSheet.getRange(studentRowAbs, targetCol).setValue(status);
-    
-    // Explicitly flush to ensure data is written before lock release
-    SpreadsheetApp.flush();
+  var sheet = target.sheet;
+  if (target.isNewDate) {
+    sheet.getRange(SHEET_LAYOUT.dateRow, target.col).setValue(new Date()).setNumberFormat(SHEET_LAYOUT.dateFormat);
+  }
+
+  var startRow = SHEET_LAYOUT.firstRow;
+  var numRows = studentRowCount(sheet, startRow + SPARE_ROWS);
+  var students = readStudents(sheet, numRows);
+  var ids = students.ids;
+  var names = students.names;
+  var statusRange = sheet.getRange(startRow, target.col, numRows, 1);
+  var statuses = statusRange.getValues();
+  var notes = statusRange.getNotes();
+
+  var rowOf = {};
+  var emptyRows = [];
+  var auditRows = [];
+  for (var r = 0; r < ids.length; r++) {
+    var idInCell = String(ids[r][0]).toUpperCase().trim();
+    if (idInCell === "") emptyRows.push(r);
+    else if (!(idInCell in rowOf)) rowOf[idInCell] = r;
+  }
+
+  for (var a = 0; a < accepted.length; a++) {
+    var rec = accepted[a];
+    var row = rowOf[rec.studentId];
+    // Last writer wins: a change made before the cell was last set is dropped.
+    if (row !== undefined && noteTime(notes[row][0]) > rec.updatedAt) { rec.stale = true; continue; }
+    if (rec.remove) {
+      var removedStatus = row === undefined ? "" : String(statuses[row][0] || "").trim();
+      if (row !== undefined) { statuses[row][0] = ""; notes[row][0] = versionNote("Deleted", rec.updatedAt); }
+      auditRows.push(auditRow(rec.data, rec.sessionId, rec.studentId, removedStatus, ""));
+      continue;
+    }
+    if (row === undefined) {
+      if (emptyRows.length > 0) {
+        row = emptyRows.shift();
+      } else {
+        // Sheet is full of other students: grow the ranges
+        ids.push([""]); names.push([""]); statuses.push([""]); notes.push([""]);
+        row = ids.length - 1;
+      }
+      ids[row][0] = rec.studentId;
+      names[row][0] = rec.name;
+      rowOf[rec.studentId] = row;
+    }
+    auditRows.push(auditRow(rec.data, rec.sessionId, rec.studentId, String(statuses[row][0] || "").trim(), rec.status));
+    statuses[row][0] = rec.status;
+    notes[row][0] = versionNote("Updated", rec.updatedAt);
+  }
+
+  sheet.getRange(startRow, SHEET_LAYOUT.idColumn, ids.length, 1).setValues(ids);
+  sheet.getRange(startRow, SHEET_LAYOUT.nameColumn, names.length, 1).setValues(names);
+  sheet.getRange(startRow, target.col, statuses.length, 1).setValues(statuses).setNotes(notes);
+  logDevices(doc, accepted);
+  logDeletions(doc, accepted);
+  appendAudit(doc, auditRows);
+  return true;
+}
+
+function doPost(e) {
+  var lock = LockService.getScriptLock();
+  try {
+    // Increase wait time for the lock to 30s to handle 200+ users
+    lock.waitLock(30000); 
     
-    return ContentService.createTextOutput(JSON.stringify({result: "success"})).setMimeType(ContentService.MimeType.JSON);
+    var data = {};
+    try {
+      if (e.postData) data = JSON.parse(e.postData.contents);
+    } catch(err) {
+      data = e.parameter || {};
+    }
+
+    // Batch mode: one request, one lock, results reported per record
+    if (data.action === "batch") {
+      var records = typeof data.records === "string" ? JSON.parse(data.records) : (data.records || []);
+      return jsonOutput({ result: "success", results: writeRecords(records) });
+    }
+
+    var single = writeRecords([data])[0];
+    if (single.result !== "success") throw single.message;
+    return jsonOutput({ result: "success" });
     
   } catch (err) {
     console.error("Attendance Error: " + err);
-    return ContentService.createTextOutput(JSON.stringify({result: "error", message: err.toString()})).setMimeType(ContentService.MimeType.JSON);
+    return jsonOutput({ result: "error", message: err.toString() });
   } finally {
     lock.releaseLock();
   }
 }
 
+// Connection check for the app: version, sheets, time zone and how long the
+// write lock took to get, which grows when many scans are queued.
+function ping() {
+  var lock = LockService.getScriptLock();
+  var started = Date.now();
+  var locked = lock.tryLock(10000);
+  var lockWaitMs = Date.now() - started;
+  if (locked) lock.releaseLock();
+
+  var doc = SpreadsheetApp.getActiveSpreadsheet();
+  var sheets = getSheetConfigs().map(function(conf) {
+    return { name: conf.name, found: !!doc.getSheetByName(conf.name) };
+  });
+  return {
+    ok: true,
+    version: SCRIPT_VERSION,
+    timezone: Session.getScriptTimeZone(),
+    lockWaitMs: lockWaitMs,
+    verifiesTokens: !!PropertiesService.getScriptProperties().getProperty("TOKEN_SECRET"),
+    sheets: sheets
+  };
+}
+
 function doGet(e) {
+  var params = (e && e.parameter) || {};
+  if (params.action === "verify") {
+    return ContentService.createTextOutput(JSON.stringify(verifyToken(params.token, params.code, params.code !== undefined))).setMimeType(ContentService.MimeType.JSON);
+  }
+  if (params.action === "roster") {
+    return ContentService.createTextOutput(JSON.stringify(readRoster())).setMimeType(ContentService.MimeType.JSON);
+  }
+  if (params.action === "history") {
+    return jsonOutput(readHistory());
+  }
+  if (params.action === "ping") {
+    return jsonOutput(ping());
+  }
   try {
     var doc = SpreadsheetApp.getActiveSpreadsheet();
-    var dateStr = getFormattedDate();
+    // A session that was never written has no column yet, so nothing to read.
+    var dateStr = params.sessionId ? sessionLabel(params.sessionId, 0) : getFormattedDate();
+    if (!dateStr) return recordsOutput(params, []);
     var configs = getSheetConfigs();
     
     for (var i = 0; i < configs.length; i++) {
@@ -134,43 +818,57 @@ function doGet(e) {
       var sheet = doc.getSheetByName(conf.name);
       if (!sheet) continue;
       
-      var headerValues = sheet.getRange(conf.dateRow, conf.startCol, 1, conf.endCol - conf.startCol + 1).getDisplayValues()[0];
+      var headerValues = sheet.getRange(SHEET_LAYOUT.dateRow, conf.startCol, 1, conf.endCol - conf.startCol + 1).getDisplayValues()[0];
       var colIdx = -1;
       for (var c = 0; c < headerValues.length; c++) {
         if (headerValues[c].trim() === dateStr) { colIdx = conf.startCol + c; break; }
       }
       
       if (colIdx !== -1) {
-        var lastRow = Math.max(sheet.getLastRow(), 250);
-        var data = sheet.getRange(14, 2, lastRow - 14 + 1, 3).getValues(); // Cols B-D
-        var statuses = sheet.getRange(14, colIdx, lastRow - 14 + 1, 1).getValues();
+        var numRows = studentRowCount(sheet, SHEET_LAYOUT.firstRow + SPARE_ROWS);
+        var students = readStudents(sheet, numRows);
+        var statusRange = sheet.getRange(SHEET_LAYOUT.firstRow, colIdx, numRows, 1);
+        var statuses = statusRange.getValues();
+        var notes = statusRange.getNotes();
         
+        var devices = readDevices(doc, params.sessionId);
         var results = [];
-        for (var j = 0; j < data.length; j++) {
-          var id = String(data[j][0]).trim();
+        for (var j = 0; j < numRows; j++) {
+          var id = String(students.ids[j][0]).trim();
           var stat = statuses[j][0];
-          if (id && (stat === 'P' || stat === 'A')) {
-            results.push({ studentId: id, name: data[j][2], status: stat });
+          if (id && VALID_STATUSES.indexOf(stat) !== -1) {
+            var device = devices[id.toUpperCase()] || {};
+            results.push({
+              studentId: id, name: students.names[j][0], status: stat, updatedAt: noteTime(notes[j][0]) || undefined,
+              deviceId: device.deviceId, deviceFingerprint: device.deviceFingerprint,
+              latitude: device.latitude, longitude: device.longitude, accuracy: device.accuracy, distance: device.distance,
+              locationFlag: device.locationFlag || undefined
+            });
           }
         }
-        return ContentService.createTextOutput(JSON.stringify(results)).setMimeType(ContentService.MimeType.JSON);
+        return recordsOutput(params, results);
       }
     }
-    return ContentService.createTextOutput("[]").setMimeType(ContentService.MimeType.JSON);
+    return recordsOutput(params, []);
   } catch(e) {
     return ContentService.createTextOutput("[]").setMimeType(ContentService.MimeType.JSON);
   }
 }
 `;
 
-export const GoogleSheetIntegrationInfo: React.FC = () => {
+interface GoogleSheetIntegrationInfoProps {
+  layout?: SheetLayout;
+}
+
+export const GoogleSheetIntegrationInfo: React.FC<GoogleSheetIntegrationInfoProps> = ({ layout = DEFAULT_SHEET_LAYOUT }) => {
   const [copied, setCopied] = useState(false);
+  const appScriptCode = useMemo(() => buildAppScriptCode(layout), [layout]);
   return (
     <div className="w-full p-4 rounded-lg bg-blue-50 border border-blue-200 text-blue-800 mb-4 shadow-sm">
       <div className="flex items-start gap-3">
         <InfoIcon className="w-6 h-6 mt-1 text-blue-600" />
         <div>
-          <h3 className="text-lg font-bold text-blue-900">High-Traffic Fix (V3.1)</h3>
+          <h3 className="text-lg font-bold text-blue-900">High-Traffic Fix (V{APPS_SCRIPT_VERSION})</h3>
           <p className="mt-1 text-sm text-blue-800 leading-relaxed">
             Google has a limit of ~30 simultaneous connections. For 230 students, you <strong>MUST</strong> use this script. 
             It increases the "waiting time" so that students' requests line up instead of failing.
@@ -190,7 +888,7 @@ export const GoogleSheetIntegrationInfo: React.FC = () => {
             </pre>
           </div>
           <p className="mt-3 text-[11px] text-blue-600 italic">
-            * After copying, go to Apps Script, paste, Save, and click "Deploy > New Deployment" (Version: Anyone).
+            * After copying, go to Apps Script, paste, Save, and click "Deploy &gt; New Deployment" (Version: Anyone).
           </p>
         </div>
       </div>
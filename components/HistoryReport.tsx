@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Session } from '../types';
+import type { AttendanceBackend, AttendanceHistory } from '../backends';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { AtRiskPanel } from './AtRiskPanel';
+import { sessionLabel } from './SessionPanel';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '../attendanceStatus';
+import { DEFAULT_ATTENDANCE_THRESHOLD, buildHistoryMatrix, historyColumns, historyToCsv, historyWeeks, isBelowThreshold } from '../attendanceHistory';
+
+const THRESHOLD_KEY = 'attendance-history-threshold-v1';
+
+interface HistoryReportProps {
+  backend: AttendanceBackend;
+  // Sessions started on this device, used to label the backend's sessions.
+  sessions: Session[];
+  onClose: () => void;
+}
+
+const formatDate = (ms: number) => ms > 0 ? new Date(ms).toLocaleDateString([], { day: '2-digit', month: 'short' }) : '';
+
+export const HistoryReport: React.FC<HistoryReportProps> = ({ backend, sessions, onClose }) => {
+  const [history, setHistory] = useState<AttendanceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [fromWeek, setFromWeek] = useState(1);
+  const [toWeek, setToWeek] = useState(14);
+  const [threshold, setThreshold] = useState<number>(() => Number(localStorage.getItem(THRESHOLD_KEY)) || DEFAULT_ATTENDANCE_THRESHOLD);
+  const [belowOnly, setBelowOnly] = useState(false);
+  const [tab, setTab] = useState<'matrix' | 'at-risk'>('matrix');
+
+  useEffect(() => {
+    localStorage.setItem(THRESHOLD_KEY, String(threshold));
+  }, [threshold]);
+
+  const load = useCallback(async () => {
+    if (!backend.isConfigured) { setError('Set up a backend to see past sessions.'); return; }
+    setIsLoading(true);
+    setError('');
+    try {
+      const fetched = await backend.fetchHistory();
+      const known = new Map(sessions.map(s => [s.id, s]));
+      const labelled = fetched.sessions.map(s => {
+        const session = known.get(s.id);
+        return session ? { ...s, label: sessionLabel(session), startTime: session.startTime, ...(session.week ? { week: session.week } : {}) } : s;
+      });
+      const weeks = historyWeeks(historyColumns(labelled));
+      setHistory({ ...fetched, sessions: labelled });
+      if (weeks.length > 0) { setFromWeek(weeks[0]); setToWeek(weeks[weeks.length - 1]); }
+    } catch (e) {
+      console.error('History fetch failed', e);
+      setError('Could not load the attendance history. Check the backend and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [backend, sessions]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const weeks = useMemo(() => history ? historyWeeks(historyColumns(history.sessions)) : [], [history]);
+  const matrix = useMemo(() => history ? buildHistoryMatrix(history, fromWeek, toWeek) : null, [history, fromWeek, toWeek]);
+  const belowCount = matrix ? matrix.rows.filter(r => isBelowThreshold(r, threshold)).length : 0;
+  const visibleRows = matrix ? (belowOnly ? matrix.rows.filter(r => isBelowThreshold(r, threshold)) : matrix.rows) : [];
+
+  const handleExportCSV = () => {
+    if (!matrix || matrix.rows.length === 0) return;
+    const blob = new Blob(["\ufeff" + historyToCsv(matrix, threshold)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `attendance-history-W${fromWeek}-W${toWeek}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-4">
+            <h3 className="text-lg font-bold text-gray-900">Attendance History</h3>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs font-bold">
+              <button onClick={() => setTab('matrix')} className={`px-3 py-1 ${tab === 'matrix' ? 'bg-brand-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>Matrix</button>
+              <button onClick={() => setTab('at-risk')} className={`px-3 py-1 ${tab === 'at-risk' ? 'bg-brand-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>At Risk</button>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3 text-xs text-gray-700">
+          <label className="flex items-center gap-1">
+            Weeks
+            <select value={fromWeek} onChange={(e) => { const w = Number(e.target.value); setFromWeek(w); if (w > toWeek) setToWeek(w); }} className="border border-gray-300 rounded px-2 py-1 bg-white">
+              {weeks.map(w => <option key={w} value={w}>W{w}</option>)}
+            </select>
+            to
+            <select value={toWeek} onChange={(e) => { const w = Number(e.target.value); setToWeek(w); if (w < fromWeek) setFromWeek(w); }} className="border border-gray-300 rounded px-2 py-1 bg-white">
+              {weeks.map(w => <option key={w} value={w}>W{w}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Threshold
+            <input type="number" min={0} max={100} value={threshold} onChange={(e) => setThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))} className="w-14 border border-gray-300 rounded px-1 py-1" />
+            %
+          </label>
+          {tab === 'matrix' && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={belowOnly} onChange={(e) => setBelowOnly(e.target.checked)} />
+            Only below threshold ({belowCount})
+          </label>
+          )}
+          <div className="flex-1" />
+          <button onClick={load} disabled={isLoading} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50 disabled:opacity-50">{isLoading ? 'Loading...' : 'Refresh'}</button>
+          <button onClick={handleExportCSV} disabled={!matrix || matrix.rows.length === 0} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-brand-primary text-white font-bold hover:bg-brand-secondary disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+          {!error && matrix && matrix.columns.length === 0 && <p className="p-6 text-sm text-gray-500">No sessions recorded for these weeks.</p>}
+          {!error && matrix && matrix.columns.length > 0 && tab === 'at-risk' && <AtRiskPanel matrix={matrix} threshold={threshold} />}
+          {!error && matrix && matrix.columns.length > 0 && tab === 'matrix' && (
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold text-gray-600 sticky left-0 bg-gray-50">Student</th>
+                  {matrix.columns.map(c => (
+                    <th key={c.id} className="px-2 py-2 text-center font-medium text-gray-500 whitespace-nowrap" title={c.label}>
+                      <div className="font-bold text-gray-700">W{c.week}</div>
+                      <div>{formatDate(c.startTime) || c.label}</div>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-bold text-gray-600">Attendance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visibleRows.map(row => {
+                  const below = isBelowThreshold(row, threshold);
+                  return (
+                    <tr key={row.studentId} className={below ? 'bg-red-50' : ''}>
+                      <td className={`px-3 py-1.5 sticky left-0 ${below ? 'bg-red-50' : 'bg-white'}`}>
+                        <div className="font-bold text-gray-900 whitespace-nowrap">{row.name || row.studentId}</div>
+                        <div className="text-gray-500 font-mono">{row.studentId}</div>
+                      </td>
+                      {matrix.columns.map(c => {
+                        const status = row.marks[c.id];
+                        return (
+                          <td key={c.id} className="px-2 py-1.5 text-center">
+                            {status
+                              ? <span className={`inline-block w-6 py-0.5 rounded font-bold ${STATUS_BADGE_CLASSES[status]}`} title={STATUS_LABELS[status]}>{status}</span>
+                              : <span className="text-gray-300" title="No record">-</span>}
+                          </td>
+                        );
+                      })}
+                      <td className={`px-3 py-1.5 text-right font-bold whitespace-nowrap ${below ? 'text-red-700' : 'text-gray-900'}`}>
+                        {row.percentage === null ? '-' : `${row.percentage}%`}
+                        <div className="font-normal text-gray-500">{row.attended}/{row.counted}</div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+
+interface PinDialogProps {
+  title: string;
+  message: string;
+  // Resolves false when the PIN is wrong.
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export const PinDialog: React.FC<PinDialogProps> = ({ title, message, onSubmit, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const ok = await onSubmit(pin);
+    setBusy(false);
+    if (!ok) { setError('Wrong PIN.'); setPin(''); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-700">{message}</p>
+          <input type="password" value={pin} onChange={(e) => setPin(e.target.value)} autoFocus autoComplete="current-password" placeholder="PIN or passphrase" className="block w-full border border-gray-300 rounded-md p-2 text-sm" />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !pin} className="flex-1 py-2 bg-brand-primary text-white rounded font-bold hover:bg-brand-secondary disabled:opacity-50">{busy ? 'Checking...' : 'Unlock'}</button>
+            <button type="button" onClick={onCancel} className="flex-1 py-2 bg-gray-200 text-gray-700 rounded font-bold">Cancel</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+
+import React, { useState, useRef } from 'react';
+import type { Roster, RosterStudent } from '../types';
+import { TrashIcon } from './icons/TrashIcon';
+import { UserIcon } from './icons/UserIcon';
+import { buildRosterStudents, guessColumnMapping, mergeRosterStudents, readRosterFile, STUDENT_ID_PATTERN } from '../roster';
+import type { ColumnMapping } from '../roster';
+
+interface RosterManagerProps {
+  rosters: Roster[];
+  activeRosterId: string;
+  defaultCourseCode?: string;
+  onSelectRoster: (rosterId: string) => void;
+  onSaveRoster: (roster: Roster) => void;
+  onDeleteRoster: (rosterId: string) => void;
+  onClose: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  rows: string[][];
+  mapping: ColumnMapping;
+  replace: boolean;
+}
+
+export const RosterManager: React.FC<RosterManagerProps> = ({
+  rosters,
+  activeRosterId,
+  defaultCourseCode = '',
+  onSelectRoster,
+  onSaveRoster,
+  onDeleteRoster,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string>(activeRosterId || rosters[0]?.id || '');
+  const [newName, setNewName] = useState('');
+  const [newCourse, setNewCourse] = useState(defaultCourseCode);
+  const [newStudentId, setNewStudentId] = useState('');
+  const [newStudentName, setNewStudentName] = useState('');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const roster = rosters.find(r => r.id === editingId) || null;
+
+  const saveStudents = (students: RosterStudent[]) => {
+    if (!roster) return;
+    onSaveRoster({ ...roster, students, updatedAt: Date.now() });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || !newCourse.trim()) { setError('Roster name and course code are required.'); return; }
+    const created: Roster = { id: Math.random().toString(36).substring(2, 9) + Date.now().toString(), name: newName.trim(), courseCode: newCourse.trim().toUpperCase(), students: [], updatedAt: Date.now() };
+    onSaveRoster(created);
+    setEditingId(created.id);
+    if (!activeRosterId) onSelectRoster(created.id);
+    setNewName('');
+    setError('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = await readRosterFile(file);
+      if (rows.length === 0) { setError(`${file.name} has no rows.`); return; }
+      setPendingImport({ fileName: file.name, rows, mapping: guessColumnMapping(rows), replace: roster ? roster.students.length === 0 : true });
+      setError('');
+    } catch (err) {
+      console.error('Roster import failed', err);
+      setError(`Could not read ${file.name}. Use a .csv, .xls or .xlsx file.`);
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!roster || !pendingImport) return;
+    const result = buildRosterStudents(pendingImport.rows, pendingImport.mapping);
+    if (result.students.length === 0) { setError('No students found with this column mapping.'); return; }
+    saveStudents(pendingImport.replace ? mergeRosterStudents([], result.students) : mergeRosterStudents(roster.students, result.students));
+    setNotice(`Imported ${result.students.length} students${result.skipped ? `, skipped ${result.skipped} incomplete rows` : ''}${result.duplicates ? `, ignored ${result.duplicates} duplicates` : ''}.`);
+    setPendingImport(null);
+    setError('');
+  };
+
+  const handleAddStudent = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roster) return;
+    const id = newStudentId.trim().toUpperCase();
+    const name = newStudentName.trim().toUpperCase();
+    if (!id || !name) { setError('Student ID and name are required.'); return; }
+    if (roster.students.some(s => s.id === id) && !window.confirm(`${id} is already on this roster. Replace the name?`)) return;
+    saveStudents(mergeRosterStudents(roster.students, [{ id, name }]));
+    setNewStudentId('');
+    setNewStudentName('');
+    setError('');
+  };
+
+  const columnCount = pendingImport ? Math.max(...pendingImport.rows.slice(0, 20).map(r => r.length)) : 0;
+  const columnLabel = (c: number) => pendingImport && pendingImport.mapping.hasHeader && pendingImport.rows[0][c] ? `${String.fromCharCode(65 + c)}: ${pendingImport.rows[0][c]}` : `Column ${String.fromCharCode(65 + c)}`;
+  const preview = pendingImport ? buildRosterStudents(pendingImport.rows, pendingImport.mapping) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">Class Rosters</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
+          <div className="md:w-64 border-b md:border-b-0 md:border-r border-gray-200 p-4 space-y-3 overflow-y-auto">
+            {rosters.length === 0 && <p className="text-xs text-gray-500">No rosters yet. Create one for each course you teach.</p>}
+            {rosters.map(r => (
+              <div key={r.id} onClick={() => { setEditingId(r.id); setPendingImport(null); setNotice(''); }} className={`p-2 rounded-lg border cursor-pointer ${r.id === editingId ? 'border-brand-primary bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-bold text-gray-800 truncate">{r.name}</p>
+                  {r.id === activeRosterId && <span className="text-[10px] font-bold uppercase text-green-700">Active</span>}
+                </div>
+                <p className="text-[11px] text-gray-500">{r.courseCode} · {r.students.length} students</p>
+              </div>
+            ))}
+            <form onSubmit={handleCreate} className="space-y-2 pt-2 border-t border-gray-100">
+              <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Roster name" className="block w-full border border-gray-300 rounded-md p-2 text-xs" />
+              <input type="text" value={newCourse} onChange={(e) => setNewCourse(e.target.value.toUpperCase())} placeholder="Course code" className="block w-full border border-gray-300 rounded-md p-2 text-xs uppercase" />
+              <button type="submit" className="w-full py-2 bg-brand-primary text-white text-xs font-bold rounded-md hover:bg-brand-secondary">New Roster</button>
+            </form>
+          </div>
+
+          <div className="flex-1 p-4 space-y-3 overflow-y-auto">
+            {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+            {notice && <p className="text-xs text-green-700 font-medium">{notice}</p>}
+
+            {!roster ? (
+              <p className="text-sm text-gray-500 text-center py-8">Select or create a roster.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="flex-1 min-w-[8rem]">
+                    <label className="block text-[11px] font-medium text-gray-500">Name</label>
+                    <input type="text" value={roster.name} onChange={(e) => onSaveRoster({ ...roster, name: e.target.value, updatedAt: Date.now() })} className="block w-full border border-gray-300 rounded-md p-2 text-xs" />
+                  </div>
+                  <div className="w-32">
+                    <label className="block text-[11px] font-medium text-gray-500">Course</label>
+                    <input type="text" value={roster.courseCode} onChange={(e) => onSaveRoster({ ...roster, courseCode: e.target.value.toUpperCase(), updatedAt: Date.now() })} className="block w-full border border-gray-300 rounded-md p-2 text-xs uppercase" />
+                  </div>
+                  <button onClick={() => onSelectRoster(roster.id)} disabled={roster.id === activeRosterId} className="px-3 py-2 bg-green-600 text-white text-xs font-semibold rounded-md hover:bg-green-700 disabled:opacity-50">Use Roster</button>
+                  <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 bg-brand-secondary text-white text-xs font-semibold rounded-md">Import CSV/Excel</button>
+                  <button onClick={() => { if (window.confirm(`Delete roster "${roster.name}"?`)) { onDeleteRoster(roster.id); setEditingId(''); } }} className="p-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200"><TrashIcon className="w-4 h-4" /></button>
+                  <input ref={fileInputRef} type="file" accept=".csv,.xls,.xlsx,text/csv" onChange={handleFileChange} className="hidden" />
+                </div>
+
+                {pendingImport && preview && (
+                  <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg space-y-2">
+                    <p className="text-xs font-bold text-indigo-900">Map columns from {pendingImport.fileName}</p>
+                    <div className="flex flex-wrap gap-3 items-center text-xs">
+                      <label className="flex items-center gap-1">ID
+                        <select value={pendingImport.mapping.idColumn} onChange={(e) => setPendingImport({ ...pendingImport, mapping: { ...pendingImport.mapping, idColumn: Number(e.target.value) } })} className="border border-gray-300 rounded px-1 py-0.5 bg-white">
+                          {Array.from({ length: columnCount }, (_, c) => <option key={c} value={c}>{columnLabel(c)}</option>)}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-1">Name
+                        <select value={pendingImport.mapping.nameColumn} onChange={(e) => setPendingImport({ ...pendingImport, mapping: { ...pendingImport.mapping, nameColumn: Number(e.target.value) } })} className="border border-gray-300 rounded px-1 py-0.5 bg-white">
+                          {Array.from({ length: columnCount }, (_, c) => <option key={c} value={c}>{columnLabel(c)}</option>)}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-1"><input type="checkbox" checked={pendingImport.mapping.hasHeader} onChange={(e) => setPendingImport({ ...pendingImport, mapping: { ...pendingImport.mapping, hasHeader: e.target.checked } })} />First row is a header</label>
+                      <label className="flex items-center gap-1"><input type="checkbox" checked={pendingImport.replace} onChange={(e) => setPendingImport({ ...pendingImport, replace: e.target.checked })} />Replace existing students</label>
+                    </div>
+                    <table className="w-full text-[11px] text-left bg-white rounded">
+                      <tbody>
+                        {preview.students.slice(0, 5).map(s => (
+                          <tr key={s.id} className="border-b border-gray-100">
+                            <td className={`px-2 py-1 font-mono ${STUDENT_ID_PATTERN.test(s.id) ? '' : 'text-orange-600'}`}>{s.id}</td>
+                            <td className="px-2 py-1">{s.name}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-[11px] text-indigo-800">{preview.students.length} students found{preview.skipped ? `, ${preview.skipped} incomplete rows` : ''}{preview.duplicates ? `, ${preview.duplicates} duplicates` : ''}.</p>
+                    <div className="flex gap-2">
+                      <button onClick={handleConfirmImport} className="px-3 py-1.5 bg-brand-primary text-white text-xs font-bold rounded-md">Import {preview.students.length}</button>
+                      <button onClick={() => setPendingImport(null)} className="px-3 py-1.5 bg-gray-200 text-gray-700 text-xs font-bold rounded-md">Cancel</button>
+                    </div>
+                  </div>
+                )}
+
+                <form onSubmit={handleAddStudent} className="flex gap-2">
+                  <input type="text" value={newStudentId} onChange={(e) => setNewStudentId(e.target.value.toUpperCase())} placeholder="Student ID" className="w-36 border border-gray-300 rounded-md p-2 text-xs uppercase" />
+                  <input type="text" value={newStudentName} onChange={(e) => setNewStudentName(e.target.value.toUpperCase())} placeholder="Full Name" className="flex-1 border border-gray-300 rounded-md p-2 text-xs uppercase" />
+                  <button type="submit" className="px-3 bg-brand-primary text-white text-xs font-bold rounded-md"><UserIcon className="w-4 h-4" /></button>
+                </form>
+
+                <div className="border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+                  {roster.students.length === 0 ? (
+                    <p className="text-xs text-gray-500 text-center py-6">No students on this roster yet.</p>
+                  ) : (
+                    <table className="w-full text-xs text-left text-gray-700">
+                      <tbody>
+                        {roster.students.map(s => (
+                          <tr key={s.id} className="border-b border-gray-100">
+                            <td className="px-3 py-1.5 font-mono font-bold w-32">{s.id}</td>
+                            <td className="px-3 py-1.5">
+                              <input type="text" value={s.name} onChange={(e) => saveStudents(roster.students.map(x => x.id === s.id ? { ...x, name: e.target.value.toUpperCase() } : x))} className="w-full bg-transparent uppercase" />
+                            </td>
+                            <td className="px-3 py-1.5 w-8">
+                              <button onClick={() => saveStudents(roster.students.filter(x => x.id !== s.id))} className="text-gray-400 hover:text-red-600"><TrashIcon className="w-4 h-4" /></button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+
+import React, { useState } from 'react';
+import type { GeofencePolicy, Session } from '../types';
+import { ClockIcon } from './icons/ClockIcon';
+import { GlobeIcon } from './icons/GlobeIcon';
+import { DEFAULT_LATE_AFTER_MINUTES, lateThreshold } from '../attendanceStatus';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, LocationError, getCurrentLocation } from '../geofence';
+
+interface SessionPanelProps {
+  sessions: Session[];
+  activeSession: Session | null;
+  onSelectSession: (sessionId: string) => void;
+  onStartSession: (courseCode: string, section: string, week: number, lateAfterMinutes: number) => void;
+  onCloseSession: (sessionId: string) => void;
+  onUpdateSession: (sessionId: string, changes: Partial<Omit<Session, 'id'>>) => void;
+  onReopenSession: (sessionId: string) => void;
+}
+
+export const sessionLabel = (session: Session) =>
+  `${session.courseCode}${session.section ? ` · ${session.section}` : ''}${session.week ? ` · W${session.week}` : ''}`;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({
+  sessions,
+  activeSession,
+  onSelectSession,
+  onStartSession,
+  onCloseSession,
+  onUpdateSession,
+  onReopenSession
+}) => {
+  const [showForm, setShowForm] = useState(sessions.length === 0);
+  const [courseCode, setCourseCode] = useState(activeSession?.courseCode || '');
+  const [section, setSection] = useState(activeSession?.section || '');
+  const [week, setWeek] = useState<number>(activeSession ? Math.min(activeSession.week + 1, 14) : 1);
+  const [lateAfter, setLateAfter] = useState<number>(activeSession?.lateAfterMinutes ?? DEFAULT_LATE_AFTER_MINUTES);
+  const [formError, setFormError] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [geofenceError, setGeofenceError] = useState('');
+
+  // The teacher stands in the classroom and saves where they are.
+  const handleSetClassroomLocation = async () => {
+    if (!activeSession) return;
+    setIsLocating(true);
+    setGeofenceError('');
+    try {
+      const fix = await getCurrentLocation();
+      onUpdateSession(activeSession.id, {
+        geofence: {
+          latitude: fix.latitude,
+          longitude: fix.longitude,
+          radiusMeters: activeSession.geofence?.radiusMeters ?? Math.max(DEFAULT_GEOFENCE_RADIUS_METERS, Math.round(fix.accuracy)),
+          policy: activeSession.geofence?.policy ?? 'flag',
+        }
+      });
+    } catch (err) {
+      setGeofenceError(err instanceof LocationError ? err.message : 'Could not read this device\'s location.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courseCode.trim()) { setFormError('Course code is required.'); return; }
+    if (!Number.isInteger(week) || week < 1 || week > 14) { setFormError('Week must be between 1 and 14.'); return; }
+    if (!Number.isInteger(lateAfter) || lateAfter < 0) { setFormError('Late grace period must be 0 or more minutes.'); return; }
+    onStartSession(courseCode.trim().toUpperCase(), section.trim().toUpperCase(), week, lateAfter);
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const sortedSessions = [...sessions].sort((a, b) => b.startTime - a.startTime);
+
+  return (
+    <div className="p-3 bg-white border border-gray-200 rounded-lg shadow-sm space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        {activeSession ? (
+          <div className="flex items-center gap-2 min-w-0">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${activeSession.status === 'open' ? 'bg-green-100 text-green-800 animate-pulse' : 'bg-gray-200 text-gray-600'}`}>
+              {activeSession.status === 'open' ? 'Open' : 'Closed'}
+            </span>
+            <div className="min-w-0">
+              <p className="text-sm font-bold text-gray-800 truncate">{sessionLabel(activeSession)}</p>
+              <p className="text-[11px] text-gray-500 flex items-center gap-1">
+                <ClockIcon className="w-3 h-3" />
+                {formatTime(activeSession.startTime)}{activeSession.endTime ? ` – ${formatTime(activeSession.endTime)}` : ''}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No session selected.</p>
+        )}
+        <div className="flex gap-2">
+          {activeSession && activeSession.status === 'open' && (
+            <button onClick={() => { if (window.confirm(`Close ${sessionLabel(activeSession)}? Students will no longer be able to check in.`)) onCloseSession(activeSession.id); }} className="px-3 py-1.5 bg-red-100 text-red-700 text-xs font-semibold rounded-lg hover:bg-red-200">Close</button>
+          )}
+          {activeSession && activeSession.status === 'closed' && (
+            <button onClick={() => onReopenSession(activeSession.id)} className="px-3 py-1.5 bg-green-100 text-green-700 text-xs font-semibold rounded-lg hover:bg-green-200">Reopen</button>
+          )}
+          <button onClick={() => setShowForm(!showForm)} className="px-3 py-1.5 bg-brand-primary text-white text-xs font-semibold rounded-lg hover:bg-brand-secondary">{showForm ? 'Cancel' : 'New Session'}</button>
+        </div>
+      </div>
+
+      {activeSession && !showForm && (
+        <label className="flex items-center gap-2 text-[11px] text-gray-600">
+          <ClockIcon className="w-3 h-3" />
+          Late after
+          <input type="number" min={0} value={activeSession.lateAfterMinutes ?? 0} onChange={(e) => onUpdateSession(activeSession.id, { lateAfterMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className="w-14 border border-gray-300 rounded px-1 py-0.5 text-[11px]" />
+          min
+          {lateThreshold(activeSession) > 0 && <span className="text-gray-400">({formatTime(lateThreshold(activeSession))})</span>}
+        </label>
+      )}
+
+      {activeSession && !showForm && (
+        <div className="flex items-center flex-wrap gap-2 text-[11px] text-gray-600">
+          <GlobeIcon className="w-3 h-3" />
+          {activeSession.geofence ? (
+            <>
+              Within
+              <input type="number" min={10} value={activeSession.geofence.radiusMeters} onChange={(e) => onUpdateSession(activeSession.id, { geofence: { ...activeSession.geofence!, radiusMeters: Math.max(10, Math.floor(Number(e.target.value) || 0)) } })} className="w-16 border border-gray-300 rounded px-1 py-0.5 text-[11px]" />
+              m of classroom,
+              <select value={activeSession.geofence.policy} onChange={(e) => onUpdateSession(activeSession.id, { geofence: { ...activeSession.geofence!, policy: e.target.value as GeofencePolicy } })} className="border border-gray-300 rounded px-1 py-0.5 text-[11px] bg-white">
+                <option value="flag">flag others</option>
+                <option value="reject">reject others</option>
+              </select>
+              <button onClick={handleSetClassroomLocation} disabled={isLocating} className="text-brand-primary underline disabled:opacity-50">{isLocating ? 'Locating...' : 'Update'}</button>
+              <button onClick={() => onUpdateSession(activeSession.id, { geofence: undefined })} className="text-red-600 underline">Remove</button>
+            </>
+          ) : (
+            <button onClick={handleSetClassroomLocation} disabled={isLocating} className="text-brand-primary underline disabled:opacity-50">{isLocating ? 'Locating...' : 'Restrict to this classroom'}</button>
+          )}
+          {geofenceError && <span className="text-red-600">{geofenceError}</span>}
+        </div>
+      )}
+
+      {activeSession && !showForm && (
+        <label className="flex items-center gap-2 text-[11px] text-gray-600">
+          <input type="checkbox" checked={!!activeSession.requireCode} onChange={(e) => onUpdateSession(activeSession.id, { requireCode: e.target.checked })} />
+          Require the classroom code shown under the QR
+        </label>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleStart} className="grid grid-cols-3 gap-2">
+          <input type="text" value={courseCode} onChange={(e) => setCourseCode(e.target.value.toUpperCase())} placeholder="Course (e.g. FIA1013)" className="col-span-3 sm:col-span-1 border border-gray-300 rounded-md p-2 text-xs uppercase" />
+          <input type="text" value={section} onChange={(e) => setSection(e.target.value.toUpperCase())} placeholder="Section" className="border border-gray-300 rounded-md p-2 text-xs uppercase" />
+          <input type="number" min={1} max={14} value={week} onChange={(e) => setWeek(Number(e.target.value))} placeholder="Week" className="border border-gray-300 rounded-md p-2 text-xs" />
+          <label className="col-span-3 flex items-center gap-2 text-xs text-gray-600">
+            Mark late after
+            <input type="number" min={0} value={lateAfter} onChange={(e) => setLateAfter(Number(e.target.value))} className="w-16 border border-gray-300 rounded-md p-1 text-xs" />
+            minutes (0 = never)
+          </label>
+          {formError && <p className="col-span-3 text-xs text-red-600">{formError}</p>}
+          <button type="submit" className="col-span-3 py-2 bg-green-600 text-white text-xs font-bold rounded-md hover:bg-green-700">Start Session</button>
+        </form>
+      )}
+
+      {sortedSessions.length > 1 && (
+        <select value={activeSession?.id || ''} onChange={(e) => onSelectSession(e.target.value)} className="w-full text-xs border border-gray-300 rounded px-2 py-1 bg-white">
+          {!activeSession && <option value="">Select a session...</option>}
+          {sortedSessions.map(s => (
+            <option key={s.id} value={s.id}>{sessionLabel(s)} — {formatTime(s.startTime)}{s.status === 'open' ? ' (open)' : ''}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
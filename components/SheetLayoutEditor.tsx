@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { TrashIcon } from './icons/TrashIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { DEFAULT_SHEET_LAYOUT, parseSheetLayout, serializeSheetLayout, validateSheetLayout } from '../sheetLayout';
+import type { SheetLayout, SheetTab } from '../sheetLayout';
+
+interface SheetLayoutEditorProps {
+  layout: SheetLayout;
+  // Called with every valid edit, so the generated script follows along.
+  onChange: (layout: SheetLayout) => void;
+}
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 text-xs bg-white';
+
+export const SheetLayoutEditor: React.FC<SheetLayoutEditorProps> = ({ layout, onChange }) => {
+  const [draft, setDraft] = useState<SheetLayout>(layout);
+  const [importError, setImportError] = useState('');
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const errors = validateSheetLayout(draft);
+
+  const update = (next: SheetLayout) => {
+    setDraft(next);
+    setNotice('');
+    if (validateSheetLayout(next).length === 0) onChange(next);
+  };
+  const updateSheet = (index: number, changes: Partial<SheetTab>) =>
+    update({ ...draft, sheets: draft.sheets.map((s, i) => i === index ? { ...s, ...changes } : s) });
+
+  const handleExport = () => {
+    const blob = new Blob([serializeSheetLayout(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sheet-layout.json';
+    link.click();
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeSheetLayout(draft));
+      setNotice('Layout copied. Paste it into a .json file or a message to share it.');
+    } catch (e) {
+      setNotice('Copying is blocked in this browser. Use Export instead.');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update(parseSheetLayout(await file.text()));
+      setImportError('');
+      setNotice(`Loaded ${file.name}.`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-3 text-xs text-gray-700">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-bold text-gray-800">Sheet Layout</h4>
+        <button onClick={() => update(DEFAULT_SHEET_LAYOUT)} className="text-red-600 underline">Reset to default</button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <label className="flex flex-col gap-1">Date row
+          <input type="number" min={1} value={draft.dateRow} onChange={(e) => update({ ...draft, dateRow: Math.floor(Number(e.target.value)) })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">First student row
+          <input type="number" min={1} value={draft.firstStudentRow} onChange={(e) => update({ ...draft, firstStudentRow: Math.floor(Number(e.target.value)) })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">Date format
+          <input type="text" value={draft.dateFormat} onChange={(e) => update({ ...draft, dateFormat: e.target.value })} className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col gap-1">Student ID column
+          <input type="text" value={draft.idColumn} onChange={(e) => update({ ...draft, idColumn: e.target.value.toUpperCase() })} className={`${inputClass} uppercase`} />
+        </label>
+        <label className="flex flex-col gap-1">Name column
+          <input type="text" value={draft.nameColumn} onChange={(e) => update({ ...draft, nameColumn: e.target.value.toUpperCase() })} className={`${inputClass} uppercase`} />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-[1fr_4rem_4rem_1.5rem] gap-2 font-bold text-gray-500">
+          <span>Sheet name</span><span>First date</span><span>Last date</span><span />
+        </div>
+        {draft.sheets.map((sheet, i) => (
+          <div key={i} className="grid grid-cols-[1fr_4rem_4rem_1.5rem] gap-2 items-center">
+            <input type="text" value={sheet.name} onChange={(e) => updateSheet(i, { name: e.target.value })} className={inputClass} />
+            <input type="text" value={sheet.firstDateColumn} onChange={(e) => updateSheet(i, { firstDateColumn: e.target.value.toUpperCase() })} className={`${inputClass} uppercase`} />
+            <input type="text" value={sheet.lastDateColumn} onChange={(e) => updateSheet(i, { lastDateColumn: e.target.value.toUpperCase() })} className={`${inputClass} uppercase`} />
+            <button onClick={() => update({ ...draft, sheets: draft.sheets.filter((_, j) => j !== i) })} className="text-gray-400 hover:text-red-600" title="Remove sheet">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button onClick={() => update({ ...draft, sheets: [...draft.sheets, { name: '', firstDateColumn: '', lastDateColumn: '' }] })} className="text-brand-primary underline">+ Add sheet</button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-2 rounded bg-red-50 border border-red-200 text-red-700 space-y-0.5">
+          {errors.map(err => <p key={err}>{err}</p>)}
+          <p className="text-red-500 italic">The script below keeps the last valid layout until these are fixed.</p>
+        </div>
+      )}
+      {importError && <p className="text-red-600">{importError}</p>}
+      {notice && <p className="text-green-700">{notice}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleExport} className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">
+          <DownloadIcon className="w-3.5 h-3.5" />
+          Export JSON
+        </button>
+        <button onClick={handleCopy} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">Copy JSON</button>
+        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 rounded-md border border-gray-300 font-bold hover:bg-gray-50">Import JSON</button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+      </div>
+    </div>
+  );
+};
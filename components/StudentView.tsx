@@ -1,25 +1,85 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CheckInProof, Geofence, RosterStudent, ScanLocation } from '../types';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
 import { GlobeIcon } from './icons/GlobeIcon';
-import { PRE_REGISTERED_STUDENTS } from '../studentList';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { CODE_LENGTH, TOKEN_MAX_AGE_MS, checkToken, normalizeVerificationCode, parseToken, rememberRedeemedToken, tokenRequiresCode } from '../qrToken';
+import { getDeviceIdentity, signCheckIn } from '../deviceIdentity';
+import { STUDENT_ID_PATTERN, studentEmail } from '../roster';
+import { LocationError, getCurrentLocation, isInsideGeofence, toScanLocation } from '../geofence';
+import type { LocationErrorCode } from '../geofence';
+import type { OutboxEntry } from '../outbox';
 
 interface StudentViewProps {
-  markAttendance: (name: string, studentId: string, email: string) => { success: boolean, message: string };
+  markAttendance: (name: string, studentId: string, email: string, proof?: CheckInProof) => { success: boolean, message: string };
   token: string;
+  verifyToken?: (token: string, code?: string) => Promise<{ valid: boolean, reason?: string } | null>;
+  roster?: RosterStudent[];
+  geofence?: Geofence;
   bypassRestrictions?: boolean;
   onExit?: () => void;
   isSyncing?: boolean;
+  // The check-in waits in the service worker's outbox, which survives the tab.
+  savedForUpload?: boolean;
+  // Set when the backend refused a check-in sent from the outbox.
+  uploadError?: string;
+  // A check-in from an earlier visit that the backend refused.
+  earlierRejection?: OutboxEntry;
+  onDismissEarlierRejection?: () => void;
+  // Set when the link cannot work at all, e.g. it points at the teacher's local storage.
+  linkError?: string;
 }
 
-type Status = 'validating' | 'form' | 'success' | 'error' | 'cooldown';
+type UploadState = 'sending' | 'saved' | 'rejected' | 'done';
+
+const UPLOAD_HEADINGS: Record<UploadState, { text: string, className: string }> = {
+  sending: { text: 'Syncing...', className: 'text-brand-primary' },
+  saved: { text: 'Saved!', className: 'text-green-800' },
+  rejected: { text: 'Not Accepted', className: 'text-red-600' },
+  done: { text: 'Verified!', className: 'text-green-800' },
+};
+
+const UPLOAD_WINDOW_MINUTES = Math.round(TOKEN_MAX_AGE_MS / 60000);
+
+const UPLOAD_NOTES: Record<UploadState, { title: string, text: string, className: string }> = {
+  sending: {
+    title: '⚠ DO NOT CLOSE THIS TAB',
+    text: 'Wait for the icon to turn GREEN. If the server is busy, we will automatically retry for you. Just wait.',
+    className: 'bg-orange-50 border-orange-200 text-orange-800',
+  },
+  saved: {
+    title: 'You can close this tab',
+    text: `Your check-in is stored on this phone and is sent as soon as there is a connection. It must arrive within ${UPLOAD_WINDOW_MINUTES} minutes of your scan; if it does not, this page tells you the next time you open it.`,
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+  rejected: {
+    title: 'Show this screen to your lecturer',
+    text: 'They can record your attendance by hand.',
+    className: 'bg-red-50 border-red-200 text-red-800',
+  },
+  done: {
+    title: 'Success!',
+    text: 'Your attendance has been permanently recorded in the official Google Sheet. You can safely close this tab now.',
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+};
+
+type Status = 'validating' | 'locating' | 'location-error' | 'form' | 'success' | 'error' | 'cooldown';
 
 const COOLDOWN_MINUTES = 30;
 const COOLDOWN_MS = COOLDOWN_MINUTES * 60 * 1000;
 const LAST_SCAN_KEY = 'attendance-last-scan-standard-v1';
 
-export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token, bypassRestrictions = false, onExit, isSyncing = false }) => {
+const LOCATION_HINTS: Record<LocationErrorCode, string> = {
+  unsupported: 'Open the link in your phone\'s main browser.',
+  denied: 'Allow location access for this site in your browser settings, then try again.',
+  unavailable: 'Turn on location services, then try again.',
+  timeout: 'Move near a window or turn on Wi-Fi, then try again.',
+};
+
+export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token, verifyToken, roster = [], geofence, bypassRestrictions = false, onExit, isSyncing = false, savedForUpload = false, uploadError, linkError, earlierRejection, onDismissEarlierRejection }) => {
   const [name, setName] = useState('');
   const [studentId, setStudentId] = useState('');
   const [email, setEmail] = useState('');
@@ -29,14 +89,61 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
   const [formError, setFormError] = useState('');
   const [cooldownEndTime, setCooldownEndTime] = useState<number | null>(null);
   const [remainingTime, setRemainingTime] = useState<string>('');
+  const [location, setLocation] = useState<ScanLocation | undefined>(undefined);
+  const [locationNote, setLocationNote] = useState('');
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const parsedToken = parseToken(token);
+  const needsCode = !bypassRestrictions && !!parsedToken && tokenRequiresCode(parsedToken);
+  const upload: UploadState = uploadError ? 'rejected' : isSyncing ? 'sending' : savedForUpload ? 'saved' : 'done';
+
+  // Under a 'reject' policy the student cannot continue without a fix inside the
+  // radius; under 'flag' they continue and the teacher reviews the scan.
+  const locate = useCallback(async () => {
+    if (!geofence) { setStatus('form'); return; }
+    setStatus('locating');
+    try {
+      const fix = toScanLocation(geofence, await getCurrentLocation());
+      const inside = isInsideGeofence(geofence, fix);
+      if (!inside && geofence.policy === 'reject') {
+        setMessage(`You appear to be ${fix.distance} m from the classroom. Move closer and try again.`);
+        setStatus('location-error');
+        return;
+      }
+      setLocation(fix);
+      setLocationNote(inside ? '' : 'You appear to be outside the classroom. Your check-in will be reviewed.');
+      setStatus('form');
+    } catch (err) {
+      const reason = err instanceof LocationError ? `${err.message} ${LOCATION_HINTS[err.code]}` : 'Your location could not be checked.';
+      if (geofence.policy === 'reject') {
+        setMessage(`This class requires your location. ${reason}`);
+        setStatus('location-error');
+      } else {
+        setLocationNote(`${reason} Without it, your check-in will be reviewed by the teacher.`);
+        setStatus('form');
+      }
+    }
+  }, [geofence]);
   
   useEffect(() => {
     if (bypassRestrictions) { setStatus('form'); return; }
+    if (linkError) { setStatus('error'); setMessage(linkError); return; }
     if (!token) { setStatus('error'); setMessage('Invalid link. Please scan the QR code again.'); return; }
-    const qrTime = parseInt(token, 10);
-    const now = Date.now();
-    const isValid = !isNaN(qrTime) && (now - qrTime < 60000); 
-    if (isValid) {
+    const check = checkToken(token);
+    if (!check.valid) { setStatus('error'); setMessage(check.reason); return; }
+
+    let active = true;
+    const validate = async () => {
+        // The signature can only be checked by the backend. If it is unreachable
+        // we let the student continue; the backend re-verifies on submit.
+        const remote = verifyToken ? await verifyToken(token) : null;
+        if (!active) return;
+        if (remote && !remote.valid) {
+            setStatus('error');
+            setMessage(remote.reason ? `${remote.reason}. Please scan the code on the teacher's screen.` : 'This QR code is not valid. Please scan the code on the teacher\'s screen.');
+            return;
+        }
+        const now = Date.now();
         const lastScanStr = localStorage.getItem(LAST_SCAN_KEY);
         if (lastScanStr) {
             const lastScanTime = parseInt(lastScanStr, 10);
@@ -47,18 +154,22 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
                 return;
             }
         }
-        setStatus('form');
-    } else {
-        setStatus('error');
-        setMessage('This QR code has expired. Please scan the new code on the teacher\'s screen.');
-    }
-  }, [token, bypassRestrictions]);
+        locate();
+    };
+    validate();
+    return () => { active = false; };
+  }, [token, verifyToken, bypassRestrictions, linkError, locate]);
+
+  useEffect(() => {
+    // Opening the device store takes a moment on first visit; do it while the student types.
+    if (!bypassRestrictions) getDeviceIdentity().catch(() => {});
+  }, [bypassRestrictions]);
 
   useEffect(() => {
     if (status !== 'cooldown' || !cooldownEndTime) return;
     const interval = setInterval(() => {
         const diff = cooldownEndTime - Date.now();
-        if (diff <= 0) { setStatus('form'); setCooldownEndTime(null); clearInterval(interval); }
+        if (diff <= 0) { setCooldownEndTime(null); clearInterval(interval); locate(); }
         else {
             const minutes = Math.floor((diff / 60000));
             const seconds = Math.floor((diff % 60000) / 1000);
@@ -66,17 +177,51 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
         }
     }, 1000);
     return () => clearInterval(interval);
-  }, [status, cooldownEndTime]);
+  }, [status, cooldownEndTime, locate]);
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim() || !studentId.trim() || !email.trim()) { setFormError('All fields required.'); return; }
     const studentIdRegex = /^[A-Z]{3}\d{8}$/;
     if (!studentIdRegex.test(studentId)) { setFormError('Invalid ID (e.g. FIA24001006).'); return; }
-    
-    const result = markAttendance(name, studentId, email);
+    const normalizedCode = normalizeVerificationCode(code);
+    if (needsCode && normalizedCode.length !== CODE_LENGTH) { setFormError(`Enter the ${CODE_LENGTH}-character code shown next to the QR code.`); return; }
+
+    let result: { success: boolean, message: string };
+    setIsSubmitting(true);
+    try {
+        // Only the backend can check the code. If it is unreachable the
+        // submission is queued and the backend rejects a wrong code then.
+        if (needsCode && verifyToken) {
+            const check = await verifyToken(token, normalizedCode);
+            if (check && !check.valid) { setFormError(check.reason ? `${check.reason}.` : 'Wrong code.'); return; }
+        }
+        // Kiosk scans all come from the teacher's device, so only phones identify
+        // themselves, and the backends refuse a phone's check-in without it.
+        let deviceFields: CheckInProof = {};
+        if (!bypassRestrictions) {
+            try {
+                const device = await getDeviceIdentity();
+                deviceFields = { deviceId: device.deviceId, deviceFingerprint: device.fingerprint, devicePublicKey: device.publicKey, deviceSig: await signCheckIn(token, studentId) };
+            } catch (err) {
+                console.warn('Device identity unavailable:', err);
+                setFormError('This browser could not create its device key. Please use your phone\'s regular browser, not a private tab.');
+                return;
+            }
+        }
+        result = markAttendance(name, studentId, email, {
+            ...deviceFields,
+            ...(location ? { location } : {}),
+            ...(needsCode ? { code: normalizedCode } : {}),
+        });
+    } finally {
+        setIsSubmitting(false);
+    }
     if (result.success) {
-      if (!bypassRestrictions) localStorage.setItem(LAST_SCAN_KEY, Date.now().toString());
+      if (!bypassRestrictions) {
+          localStorage.setItem(LAST_SCAN_KEY, Date.now().toString());
+          rememberRedeemedToken(token);
+      }
       setStatus('success');
     } else {
       setStatus('error');
@@ -87,17 +232,28 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
   const handleStudentIdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const val = e.target.value.toUpperCase();
       setStudentId(val);
-      const matched = PRE_REGISTERED_STUDENTS.find(s => s.id === val);
+      const matched = roster.find(s => s.id === val);
       if (matched) { setName(matched.name); setIsNewStudent(false); } 
       else { if (!isNewStudent && name) setName(''); setIsNewStudent(true); }
-      if (/^[A-Z]{3}\d{8}$/.test(val)) setEmail(`${val}@STUDENT.UTS.EDU.MY`);
+      if (STUDENT_ID_PATTERN.test(val)) setEmail(studentEmail(val));
   };
 
-  if (status === 'validating') {
+  if (status === 'validating' || status === 'locating') {
       return (
         <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary mx-auto mb-4"></div>
-            <p className="text-gray-600">Verifying secure link...</p>
+            <p className="text-gray-600">{status === 'locating' ? 'Checking your location...' : 'Verifying secure link...'}</p>
+        </div>
+      );
+  }
+
+  if (status === 'location-error') {
+      return (
+        <div className="text-center py-8 px-4">
+            <div className="mx-auto flex items-center justify-center h-20 w-20 rounded-full bg-yellow-100 mb-4"><GlobeIcon className="h-10 w-10 text-yellow-600" /></div>
+            <h3 className="text-2xl font-bold text-yellow-700 mb-2">Location Needed</h3>
+            <p className="text-gray-600 mb-6 max-w-sm mx-auto">{message}</p>
+            <button onClick={locate} className="px-6 py-3 rounded-md text-white font-bold bg-brand-primary hover:bg-brand-secondary">Try Again</button>
         </div>
       );
   }
@@ -108,6 +264,14 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
             <button onClick={onExit} className="absolute -top-2 -right-2 text-xs text-gray-400 hover:text-gray-600 p-2">✕ Exit Admin</button>
         )}
 
+        {earlierRejection && onDismissEarlierRejection && (
+            <div className="mb-6 p-4 rounded-md border bg-red-50 border-red-200 text-red-800 text-sm">
+                <p className="font-bold">An earlier check-in was not accepted</p>
+                <p className="mt-1">{earlierRejection.studentId ? `${earlierRejection.studentId}, ` : ''}saved {new Date(earlierRejection.createdAt).toLocaleString()}: {earlierRejection.lastError || 'refused by the attendance sheet'}. Show this to your lecturer, who can record it by hand.</p>
+                <button onClick={onDismissEarlierRejection} className="mt-2 text-xs font-bold underline">Dismiss</button>
+            </div>
+        )}
+
         {status === 'cooldown' && (
             <div className="text-center px-4">
                 <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-yellow-100 text-yellow-600 mb-4 animate-pulse"><ClockIcon className="w-8 h-8" /></div>
@@ -137,22 +301,33 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
                     <label className="block text-sm font-medium text-gray-700">Email Address</label>
                     <input type="email" value={email} onChange={(e) => setEmail(e.target.value.toUpperCase())} className="mt-1 block w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-gray-900 uppercase" />
                 </div>
+                {needsCode && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Classroom Code</label>
+                        <input type="text" value={code} maxLength={CODE_LENGTH} placeholder="Shown next to the QR" autoComplete="off" onChange={(e) => setCode(e.target.value.toUpperCase())} className="mt-1 block w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-gray-900 uppercase font-mono tracking-[0.5em] text-center text-lg" />
+                    </div>
+                )}
+                {locationNote && <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md p-2">{locationNote}</p>}
                 {formError && <p className="text-sm text-red-500 font-medium">{formError}</p>}
-                <button type="submit" className="w-full flex justify-center items-center gap-2 py-3 px-4 rounded-md shadow-sm text-base font-bold text-white bg-brand-primary hover:bg-brand-secondary">Submit Attendance</button>
+                <button type="submit" disabled={isSubmitting} className="w-full flex justify-center items-center gap-2 py-3 px-4 rounded-md shadow-sm text-base font-bold text-white bg-brand-primary hover:bg-brand-secondary disabled:opacity-50">{isSubmitting ? 'Checking...' : 'Submit Attendance'}</button>
             </form>
         )}
 
         {(status === 'success' || status === 'error') && (
             <div className="text-center py-8">
-                <div className={`mx-auto flex items-center justify-center h-28 w-28 rounded-full ${status === 'success' ? 'bg-green-100' : 'bg-red-100'} mb-6 shadow-sm`}>
+                <div className={`mx-auto flex items-center justify-center h-28 w-28 rounded-full ${status === 'success' && upload !== 'rejected' ? 'bg-green-100' : 'bg-red-100'} mb-6 shadow-sm`}>
                     {status === 'success' ? (
-                        isSyncing ? (
+                        upload === 'sending' ? (
                             <div className="relative">
                                 <ClockIcon className="h-16 w-16 text-brand-primary animate-pulse" />
                                 <div className="absolute -bottom-1 -right-1 bg-white rounded-full p-1 border border-brand-primary">
                                     <GlobeIcon className="w-4 h-4 text-brand-primary animate-spin" />
                                 </div>
                             </div>
+                        ) : upload === 'saved' ? (
+                            <ClockIcon className="h-16 w-16 text-green-600" />
+                        ) : upload === 'rejected' ? (
+                            <XCircleIcon className="h-16 w-16 text-red-600" />
                         ) : (
                             <CheckCircleIcon className="h-16 w-16 text-green-600" />
                         )
@@ -162,36 +337,34 @@ export const StudentView: React.FC<StudentViewProps> = ({ markAttendance, token,
                 </div>
 
                 <div className="mb-6">
-                    <h3 className={`text-3xl font-extrabold ${status === 'success' ? (isSyncing ? 'text-brand-primary' : 'text-green-800') : 'text-red-600'} mb-2`}>
-                        {status === 'success' ? (isSyncing ? 'Syncing...' : 'Verified!') : 'Failed'}
+                    <h3 className={`text-3xl font-extrabold ${status === 'success' ? UPLOAD_HEADINGS[upload].className : 'text-red-600'} mb-2`}>
+                        {status === 'success' ? UPLOAD_HEADINGS[upload].text : 'Failed'}
                     </h3>
                     
-                    {status === 'success' && isSyncing && (
+                    {status === 'success' && (upload === 'sending' || upload === 'saved') && (
                         <div className="inline-flex items-center gap-2 px-3 py-1 bg-brand-light/20 text-brand-primary rounded-full text-xs font-bold uppercase tracking-wider mb-4 border border-brand-light/30">
                             <ClockIcon className="w-3.5 h-3.5" />
-                            Sending to Google
+                            {upload === 'sending' ? 'Sending to Google' : 'Uploads automatically'}
                         </div>
                     )}
 
                     <p className="text-gray-600 text-lg px-4 leading-relaxed">
                         {status === 'success' 
-                          ? (isSyncing 
+                          ? (upload === 'sending' 
                               ? 'Saved to phone! Now uploading to the Google Sheet...' 
+                              : upload === 'saved'
+                              ? `Saved on this phone. It uploads to the Google Sheet by itself, even if you close this tab, once the phone is online within ${UPLOAD_WINDOW_MINUTES} minutes.`
+                              : upload === 'rejected'
+                              ? `The attendance sheet refused this check-in: ${uploadError}`
                               : 'Attendance recorded and verified in the cloud.') 
                           : message}
                     </p>
                 </div>
                 
                 {status === 'success' && (
-                    <div className={`max-w-sm mx-auto p-6 rounded-2xl border transition-all duration-500 ${isSyncing ? 'bg-orange-50 border-orange-200' : 'bg-green-50 border-green-200'}`}>
-                        <p className={`font-bold text-lg mb-2 ${isSyncing ? 'text-orange-800' : 'text-green-800'}`}>
-                            {isSyncing ? '⚠ DO NOT CLOSE THIS TAB' : 'Success!'}
-                        </p>
-                        <p className={`text-sm leading-relaxed ${isSyncing ? 'text-orange-700' : 'text-green-700'}`}>
-                            {isSyncing 
-                                ? 'Wait for the icon to turn GREEN. If the server is busy, we will automatically retry for you. Just wait.' 
-                                : 'Your attendance has been permanently recorded in the official Google Sheet. You can safely close this tab now.'}
-                        </p>
+                    <div className={`max-w-sm mx-auto p-6 rounded-2xl border transition-all duration-500 ${UPLOAD_NOTES[upload].className}`}>
+                        <p className="font-bold text-lg mb-2">{UPLOAD_NOTES[upload].title}</p>
+                        <p className="text-sm leading-relaxed">{UPLOAD_NOTES[upload].text}</p>
                         
                         {bypassRestrictions && !isSyncing && (
                              <button onClick={() => { setName(''); setStudentId(''); setEmail(''); setStatus('form'); }} className="mt-6 w-full py-3 bg-brand-primary text-white rounded-xl font-bold shadow-lg shadow-brand-primary/20 hover:scale-[1.02] active:scale-95 transition-all">
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import type { AttendanceStatus } from '../types';
+import { ATTENDANCE_STATUSES, STATUS_LABELS } from '../attendanceStatus';
+import { TrashIcon } from './icons/TrashIcon';
+import { taskKind } from '../syncQueue';
+import type { DeadLetter, SyncTask } from '../syncQueue';
+
+interface SyncDiagnosticsProps {
+  syncQueue: SyncTask[];
+  deadLetters: DeadLetter[];
+  // Sends the dead letter again; with data, the edited record replaces the original.
+  onRetryDeadLetter: (id: string, data?: Record<string, string>) => void;
+  onDiscardDeadLetter: (id: string) => void;
+  onDiscardSyncTask: (id: string) => void;
+  onClose: () => void;
+}
+
+interface EditDraft {
+  studentId: string;
+  name: string;
+  status: AttendanceStatus;
+  // Drops the student's QR token and code so this device signs the record instead.
+  resign: boolean;
+}
+
+const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+const describe = (task: SyncTask) => {
+  const id = task.data.studentId || '(no ID)';
+  switch (taskKind(task)) {
+    case 'session': return `Session ${task.data.sessionId || '?'} · ${task.data.sessionStatus === 'closed' ? 'close' : 'reopen'}`;
+    case 'delete': return `${id} · delete record`;
+    case 'audit': return `${id} · audit log entry (${task.data.auditAction || '?'})`;
+    default: return `${id} · ${task.data.name || '(no name)'} · ${task.data.status || '?'}`;
+  }
+};
+
+export const SyncDiagnostics: React.FC<SyncDiagnosticsProps> = ({ syncQueue, deadLetters, onRetryDeadLetter, onDiscardDeadLetter, onDiscardSyncTask, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EditDraft | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const startEdit = (letter: DeadLetter) => {
+    setEditingId(letter.id);
+    setDraft({
+      studentId: letter.data.studentId || '',
+      name: letter.data.name || '',
+      status: ATTENDANCE_STATUSES.includes(letter.data.status as AttendanceStatus) ? letter.data.status as AttendanceStatus : 'P',
+      resign: /qr token|verification code/i.test(letter.lastError || ''),
+    });
+  };
+
+  const submitEdit = (letter: DeadLetter) => {
+    if (!draft || !draft.studentId.trim()) return;
+    const { token: _token, code: _code, ...rest } = letter.data;
+    const data = { ...(draft.resign ? rest : letter.data), studentId: draft.studentId.trim().toUpperCase(), name: draft.name.trim(), status: draft.status };
+    onRetryDeadLetter(letter.id, data);
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleDiscard = (letter: DeadLetter) => {
+    if (window.confirm(`Discard the record for ${letter.data.studentId || 'this student'}? It will never reach the backend.`)) onDiscardDeadLetter(letter.id);
+  };
+
+  const handleDiscardTask = (task: SyncTask) => {
+    if (window.confirm(`Stop sending the record for ${task.data.studentId || 'this student'}? It will never reach the backend.`)) onDiscardSyncTask(task.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-900">Sync Diagnostics</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section className="space-y-2">
+            <h4 className="text-sm font-bold text-gray-800">Failed ({deadLetters.length})</h4>
+            <p className="text-xs text-gray-500">The backend refused these for a reason retrying will not fix. Edit and resubmit them, or discard them.</p>
+            {deadLetters.length === 0 ? (
+              <p className="text-sm text-green-700">No failed records.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {deadLetters.map(letter => (
+                  <li key={letter.id} className="p-3 space-y-2">
+                    <div className="flex flex-wrap justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-bold text-gray-900">{describe(letter)}</p>
+                        <p className="text-xs text-red-700">{letter.lastError}</p>
+                        <p className="text-xs text-gray-500">{letter.attempts || 0} attempts · queued {formatAge(now - letter.timestamp)} · failed {formatAge(now - letter.failedAt)}</p>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <button onClick={() => onRetryDeadLetter(letter.id)} className="px-3 py-1 rounded-md border border-gray-300 text-xs font-bold hover:bg-gray-50">Retry</button>
+                        {taskKind(letter) === 'record' && (
+                          <button onClick={() => editingId === letter.id ? setEditingId(null) : startEdit(letter)} className="px-3 py-1 rounded-md border border-gray-300 text-xs font-bold hover:bg-gray-50">Edit</button>
+                        )}
+                        <button onClick={() => handleDiscard(letter)} className="text-gray-400 hover:text-red-600" title="Discard">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {editingId === letter.id && draft && (
+                      <div className="p-3 bg-gray-50 rounded-md space-y-2 text-xs text-gray-700">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                          <label className="flex flex-col gap-1">Student ID
+                            <input type="text" value={draft.studentId} onChange={(e) => setDraft({ ...draft, studentId: e.target.value })} className="border border-gray-300 rounded px-2 py-1 bg-white uppercase" />
+                          </label>
+                          <label className="flex flex-col gap-1">Name
+                            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="border border-gray-300 rounded px-2 py-1 bg-white" />
+                          </label>
+                          <label className="flex flex-col gap-1">Status
+                            <select value={draft.status} onChange={(e) => setDraft({ ...draft, status: e.target.value as AttendanceStatus })} className="border border-gray-300 rounded px-2 py-1 bg-white">
+                              {ATTENDANCE_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                            </select>
+                          </label>
+                        </div>
+                        {(letter.data.token || letter.data.code) && (
+                          <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={draft.resign} onChange={(e) => setDraft({ ...draft, resign: e.target.checked })} />
+                            Sign with this device's key instead of the student's QR token
+                          </label>
+                        )}
+                        <div className="flex justify-end gap-2">
+                          <button onClick={() => { setEditingId(null); setDraft(null); }} className="px-3 py-1 rounded-md border border-gray-300 font-bold hover:bg-white">Cancel</button>
+                          <button onClick={() => submitEdit(letter)} disabled={!draft.studentId.trim()} className="px-3 py-1 rounded-md bg-brand-primary text-white font-bold hover:bg-brand-secondary disabled:opacity-50">Resubmit</button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-sm font-bold text-gray-800">Waiting to send ({syncQueue.length})</h4>
+            {syncQueue.length === 0 ? (
+              <p className="text-sm text-green-700">Everything recorded on this device has been sent.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {syncQueue.map(task => (
+                  <li key={task.id} className="p-3 flex flex-wrap justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-bold text-gray-900">{describe(task)}</p>
+                      {task.lastError && <p className="text-xs text-yellow-700">{task.lastError}</p>}
+                      <p className="text-xs text-gray-500">
+                        {task.attempts || 0} attempts · queued {formatAge(now - task.timestamp)}
+                        {task.lastAttemptAt ? ` · last tried ${formatAge(now - task.lastAttemptAt)}` : ''}
+                      </p>
+                    </div>
+                    <button onClick={() => handleDiscardTask(task)} className="text-gray-400 hover:text-red-600 self-start" title="Discard">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <div className="flex justify-end">
+            <button onClick={onClose} className="px-4 py-2 rounded-md bg-brand-primary text-white text-sm font-bold hover:bg-brand-secondary">Done</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import App from '../App';
+import { LockClosedIcon } from './icons/LockClosedIcon';
+import { eraseStoredState, saveSetting } from '../storage';
+import type { StoredState } from '../storage';
+import { MIN_PIN_LENGTH, createLock, openSecrets, sealSecrets } from '../teacherLock';
+import type { TeacherLock, TeacherSecrets } from '../teacherLock';
+
+interface TeacherLoginProps {
+  stored: StoredState;
+}
+
+/**
+ * Stands in front of the dashboard until the teacher's PIN decrypts its
+ * secrets. The first visit sets the PIN and encrypts any plain settings left
+ * by older versions.
+ */
+export const TeacherLogin: React.FC<TeacherLoginProps> = ({ stored }) => {
+  const locked = stored.settings.lockedSecrets;
+  // Plain settings from before the PIN.
+  const legacy: TeacherSecrets = { scriptUrl: stored.settings.scriptUrl, signingKey: stored.settings.signingKey };
+  const [teacher, setTeacher] = useState<{ lock: TeacherLock, secrets: TeacherSecrets } | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (teacher) return <App stored={stored} teacher={teacher} />;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (locked) {
+      setBusy(true);
+      const opened = await openSecrets(locked, pin);
+      setBusy(false);
+      if (opened) setTeacher(opened);
+      else { setError('Wrong PIN.'); setPin(''); }
+      return;
+    }
+    if (pin.length < MIN_PIN_LENGTH) { setError(`Use at least ${MIN_PIN_LENGTH} characters.`); return; }
+    if (pin !== confirmPin) { setError('The PINs do not match.'); return; }
+    setBusy(true);
+    const lock = await createLock(pin);
+    await saveSetting('lockedSecrets', await sealSecrets(lock, legacy));
+    await Promise.all([saveSetting('scriptUrl', undefined), saveSetting('signingKey', undefined)]);
+    setBusy(false);
+    setTeacher({ lock, secrets: legacy });
+  };
+
+  // Whoever resets the PIN gets a new dashboard, not this one: everything it
+  // saved on this device is erased first.
+  const handleReset = async () => {
+    if (!window.confirm('Reset the PIN? Everything the dashboard saved on this device is erased: records, sessions, rosters, the audit log, changes not synced yet and the backend settings. Records already on the backend are kept there.')) return;
+    setBusy(true);
+    try {
+      await eraseStoredState();
+      window.location.reload();
+    } catch (err) {
+      console.error('Could not erase storage:', err);
+      setBusy(false);
+      setError('Could not erase this device\'s data, so the PIN was not reset.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-100 flex flex-col items-center p-4 sm:p-6 lg:p-8 font-sans">
+      <div className="w-full max-w-sm mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-brand-primary to-brand-secondary">
+            UTS QR Attendance
+          </h1>
+          <p className="text-gray-500 mt-2">Teacher dashboard</p>
+        </header>
+        <form onSubmit={handleSubmit} className="bg-base-200 rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex items-center gap-2 text-gray-900">
+            <LockClosedIcon className="w-5 h-5" />
+            <h2 className="text-lg font-bold">{locked ? 'Enter your PIN' : 'Choose a PIN'}</h2>
+          </div>
+          {!locked && (
+            <p className="text-sm text-gray-600">The PIN encrypts the backend URL and signing key on this device, and is needed to open the dashboard and to leave kiosk mode.</p>
+          )}
+          <input type="password" value={pin} onChange={(e) => setPin(e.target.value)} autoFocus autoComplete={locked ? 'current-password' : 'new-password'} placeholder="PIN or passphrase" className="block w-full border border-gray-300 rounded-md p-2 text-sm" />
+          {!locked && (
+            <input type="password" value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)} autoComplete="new-password" placeholder="Repeat PIN" className="block w-full border border-gray-300 rounded-md p-2 text-sm" />
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button type="submit" disabled={busy || !pin} className="w-full py-2 bg-brand-primary text-white rounded font-bold hover:bg-brand-secondary disabled:opacity-50">
+            {busy ? 'Checking...' : locked ? 'Unlock' : 'Set PIN'}
+          </button>
+          {locked && (
+            <button type="button" onClick={handleReset} disabled={busy} className="w-full text-xs text-gray-500 underline hover:text-gray-700">Forgot PIN?</button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import type { Student } from '../types';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { AttendanceStatus, Roster, RosterStudent, Session, Student } from '../types';
 import QRCode from 'qrcode';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { EyeIcon } from './icons/EyeIcon';
@@ -13,24 +13,104 @@ import { ClockIcon } from './icons/ClockIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { XCircleIcon } from './icons/XCircleIcon';
 import { GlobeIcon } from './icons/GlobeIcon';
-import { GoogleSheetIntegrationInfo } from './GoogleSheetIntegrationInfo';
-import { PRE_REGISTERED_STUDENTS } from '../studentList';
+import { QrCodeIcon } from './icons/QrCodeIcon';
+import { APPS_SCRIPT_VERSION, GoogleSheetIntegrationInfo } from './GoogleSheetIntegrationInfo';
+import { ConnectionCheck } from './ConnectionCheck';
+import { SheetLayoutEditor } from './SheetLayoutEditor';
+import { SessionPanel, sessionLabel } from './SessionPanel';
+import { RosterManager } from './RosterManager';
+import { HistoryReport } from './HistoryReport';
+import { SyncDiagnostics } from './SyncDiagnostics';
+import { AuditLog } from './AuditLog';
+import { ConfirmDialog } from './ConfirmDialog';
+import { ClipboardDocumentListIcon } from './icons/ClipboardDocumentListIcon';
+import { UndoToast } from './UndoToast';
+import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
+import { ArrowUturnRightIcon } from './icons/ArrowUturnRightIcon';
+import { findAbsentees, studentEmail } from '../roster';
+import { ATTENDANCE_STATUSES, STATUS_BADGE_CLASSES, STATUS_LABELS, lateThreshold } from '../attendanceStatus';
+import { CODE_WINDOW_MS, TOKEN_FLAG_CODE, createToken, createVerificationCode, generateSigningKey } from '../qrToken';
+import { findSharedDevices } from '../deviceIdentity';
+import type { SharedDevice } from '../deviceIdentity';
+import { locationFlag } from '../geofence';
+import { BACKEND_LABELS, DEFAULT_BACKEND_KIND, DEFAULT_SCRIPT_URL, isBackendKind } from '../backends';
+import type { AttendanceBackend, BackendKind } from '../backends';
+import type { SheetLayout } from '../sheetLayout';
+import type { DeadLetter, SyncTask } from '../syncQueue';
+import { DEFAULT_SYNC_CEILINGS, MAX_SYNC_CEILING } from '../syncConcurrency';
+import type { SyncStats } from '../syncConcurrency';
+import type { AuditEntry } from '../audit';
+import type { BulkCommand } from '../commandHistory';
 
 interface TeacherViewProps {
   attendanceList: Student[];
   onTestAttendance: () => void;
-  onClearAttendance: () => void;
-  onRemoveStudents: (studentIds: string[]) => void;
-  onBulkStatusUpdate: (studentIds: string[], status: 'P' | 'A') => void;
+  // The optional reasons are typed into the confirm dialogs and go into the audit log.
+  onClearAttendance: (reason?: string) => void;
+  onRemoveStudents: (studentIds: string[], reason?: string) => void;
+  onBulkStatusUpdate: (studentIds: string[], status: AttendanceStatus, reason?: string) => void;
+  backend: AttendanceBackend;
+  backendKind: BackendKind;
+  onBackendKindChange: (kind: BackendKind) => void;
   scriptUrl: string;
   onScriptUrlChange: (url: string) => void;
+  // TEACHER_TOKEN of the self-hosted server.
+  teacherToken: string;
+  onTeacherTokenChange: (token: string) => void;
+  signingKey: string;
+  onSigningKeyChange: (key: string) => void;
+  sheetLayout: SheetLayout;
+  onSheetLayoutChange: (layout: SheetLayout) => void;
+  sessions: Session[];
+  activeSession: Session | null;
+  onSelectSession: (sessionId: string) => void;
+  onStartSession: (courseCode: string, section: string, week: number, lateAfterMinutes: number) => void;
+  onCloseSession: (sessionId: string) => void;
+  onUpdateSession: (sessionId: string, changes: Partial<Omit<Session, 'id'>>) => void;
+  onReopenSession: (sessionId: string) => void;
+  rosters: Roster[];
+  activeRoster: Roster | null;
+  onSelectRoster: (rosterId: string) => void;
+  onSaveRoster: (roster: Roster) => void;
+  onDeleteRoster: (rosterId: string) => void;
+  onFinalizeSession: (absentees: RosterStudent[], reason?: string) => void;
   onOpenKiosk: () => void;
-  onManualAdd: (name: string, id: string, email: string, status: 'P' | 'A') => {success: boolean, message: string};
+  onManualAdd: (name: string, id: string, email: string, status: AttendanceStatus, reason?: string) => {success: boolean, message: string};
+  // True while the backend is pushing changes instead of being polled.
+  isLive?: boolean;
   pendingSyncCount?: number;
+  syncStats: SyncStats;
+  // Most sync workers allowed for the current backend.
+  syncCeiling: number;
+  onSyncCeilingChange: (ceiling: number) => void;
+  syncQueue: SyncTask[];
+  deadLetters: DeadLetter[];
+  onRetryDeadLetter: (id: string, data?: Record<string, string>) => void;
+  onDiscardDeadLetter: (id: string) => void;
+  onDiscardSyncTask: (id: string) => void;
+  auditLog: AuditEntry[];
+  auditActor: string;
+  onAuditActorChange: (actor: string) => void;
+  // The bulk action Undo would revert, and the label of the one Redo would repeat.
+  lastCommand: BulkCommand | null;
+  redoLabel?: string;
+  // Return what happened, for the toast; null when there was nothing to do.
+  onUndo: () => string | null;
+  onRedo: () => string | null;
+  // Clears a record's edit conflict, first restoring the overwritten status when `restore` is set.
+  onResolveConflict: (studentId: string, restore: boolean) => void;
 }
 
 type SortOption = 'id' | 'newest' | 'oldest';
 
+interface PendingConfirm {
+    title: string;
+    message: string;
+    confirmLabel: string;
+    destructive?: boolean;
+    onConfirm: (reason?: string) => void;
+}
+
 interface TestStats {
     total: number;
     success: number;
@@ -41,43 +121,119 @@ interface TestStats {
 
 export const TeacherView: React.FC<TeacherViewProps> = ({ 
   attendanceList, 
-  onTestAttendance, 
   onClearAttendance, 
   onRemoveStudents,
   onBulkStatusUpdate,
+  backend,
+  backendKind,
+  onBackendKindChange,
   scriptUrl, 
   onScriptUrlChange, 
+  teacherToken,
+  onTeacherTokenChange,
+  signingKey,
+  onSigningKeyChange,
+  sheetLayout,
+  onSheetLayoutChange,
+  sessions,
+  activeSession,
+  onSelectSession,
+  onStartSession,
+  onCloseSession,
+  onUpdateSession,
+  onReopenSession,
+  rosters,
+  activeRoster,
+  onSelectRoster,
+  onSaveRoster,
+  onDeleteRoster,
+  onFinalizeSession,
   onOpenKiosk, 
   onManualAdd,
-  pendingSyncCount = 0
+  isLive = false,
+  pendingSyncCount = 0,
+  syncStats,
+  syncCeiling,
+  onSyncCeilingChange,
+  syncQueue,
+  deadLetters,
+  onRetryDeadLetter,
+  onDiscardDeadLetter,
+  onDiscardSyncTask,
+  auditLog,
+  auditActor,
+  onAuditActorChange,
+  lastCommand,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onResolveConflict
 }) => {
-  const [baseUrl, setBaseUrl] = useState<string>(window.location.href.split('?')[0]);
+  const [baseUrl] = useState<string>(window.location.href.split('?')[0]);
   const [qrData, setQrData] = useState<string>('');
   
   const [showEmailSetup, setShowEmailSetup] = useState<boolean>(false);
+  const [showSigningKey, setShowSigningKey] = useState<boolean>(false);
   const [viewMode, setViewMode] = useState<'teacher' | 'classroom'>('teacher');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   
   // Filter State
   const [timeFilter, setTimeFilter] = useState<'all' | number>('all');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
   const [currentTime, setCurrentTime] = useState(Date.now());
   
   // Selection State
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
+  const [showRosterManager, setShowRosterManager] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showConnectionCheck, setShowConnectionCheck] = useState(false);
+  const [showSyncDiagnostics, setShowSyncDiagnostics] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+  const [toast, setToast] = useState<{ message: string, canUndo: boolean } | null>(null);
+  // Commands from before this view opened, and redone ones, get no toast.
+  const toastedUpToRef = useRef(Date.now());
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  useEffect(() => {
+    if (!lastCommand || lastCommand.at <= toastedUpToRef.current) return;
+    toastedUpToRef.current = lastCommand.at;
+    setToast({ message: lastCommand.label, canUndo: true });
+  }, [lastCommand]);
+
+  const handleUndo = () => {
+    const message = onUndo();
+    setToast(message ? { message, canUndo: false } : null);
+  };
+
+  const handleRedo = () => {
+    const message = onRedo();
+    setToast(message ? { message, canUndo: false } : null);
+  };
+  const expectedSheets = useMemo(() => sheetLayout.sheets.map(s => s.name.trim()), [sheetLayout]);
+  const rosterStudents = activeRoster ? activeRoster.students : [];
+
+  // Finalize Preview State
+  const [finalizePreview, setFinalizePreview] = useState<RosterStudent[] | null>(null);
+  const [finalizeReason, setFinalizeReason] = useState('');
+
   // Manual Entry State
   const [showManualModal, setShowManualModal] = useState(false);
   const [manualId, setManualId] = useState('');
   const [manualName, setManualName] = useState('');
-  const [manualStatus, setManualStatus] = useState<'P' | 'A'>('P');
+  const [manualStatus, setManualStatus] = useState<AttendanceStatus>('P');
   const [manualError, setManualError] = useState('');
   const [manualIsNew, setManualIsNew] = useState(false);
+  const [manualReason, setManualReason] = useState('');
 
   // Stress Test State
   const [testStats, setTestStats] = useState<TestStats>({ total: 0, success: 0, retrying: 0, failed: 0, isRunning: false });
 
   // QR Loading State
   const [isQrLoading, setIsQrLoading] = useState(true);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSecondsLeft, setCodeSecondsLeft] = useState(0);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const isMountedRef = useRef(true);
@@ -86,19 +242,39 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
     return () => { isMountedRef.current = false; };
   }, []);
 
+  const qrSessionId = activeSession && activeSession.status === 'open' ? activeSession.id : '';
+  const qrLateAt = activeSession ? lateThreshold(activeSession) : 0;
+  const qrGeofence = activeSession?.geofence;
+  const qrFlags = activeSession?.requireCode ? TOKEN_FLAG_CODE : 0;
+
+  // Local records never leave this browser, so a phone scanning the QR would
+  // only write to its own storage. Only kiosk check-ins work there.
+  const qrUnavailable = backendKind === 'local';
+
   useEffect(() => {
-    const updateQR = () => {
+    if (!qrSessionId || qrUnavailable) { setQrData(''); setVerificationCode(''); return; }
+    let active = true;
+    const updateQR = async () => {
         let cleanBaseUrl = baseUrl.trim();
-        const timestamp = Date.now().toString();
+        const now = Date.now();
+        const token = await createToken(signingKey, qrSessionId, qrLateAt, now, qrFlags, qrGeofence);
+        const code = qrFlags & TOKEN_FLAG_CODE ? await createVerificationCode(signingKey, qrSessionId, now) : '';
         const separator = cleanBaseUrl.includes('?') ? '&' : '?';
-        const fullUrl = `${cleanBaseUrl}${separator}t=${timestamp}`;
+        let fullUrl = `${cleanBaseUrl}${separator}t=${encodeURIComponent(token)}`;
+        // Student phones only know the built-in backend, so point them at any other one.
+        if (backendKind !== DEFAULT_BACKEND_KIND || scriptUrl.trim() !== DEFAULT_SCRIPT_URL) {
+            fullUrl += `&b=${backendKind}&u=${encodeURIComponent(scriptUrl.trim())}`;
+        }
+        if (!active) return;
         setQrData(fullUrl);
+        setVerificationCode(code);
+        setCodeSecondsLeft(Math.ceil((CODE_WINDOW_MS - now % CODE_WINDOW_MS) / 1000));
     };
 
     updateQR();
     const interval = setInterval(updateQR, 1000);
-    return () => clearInterval(interval);
-  }, [baseUrl]);
+    return () => { active = false; clearInterval(interval); };
+  }, [baseUrl, signingKey, qrSessionId, qrUnavailable, qrLateAt, qrGeofence, qrFlags, backendKind, scriptUrl]);
 
   useEffect(() => {
     if (canvasRef.current && qrData) {
@@ -129,47 +305,93 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
     }
   };
 
-  const visibleList = sortList(timeFilter === 'all' ? attendanceList : attendanceList.filter(s => s.timestamp >= (currentTime - (timeFilter * 60 * 1000))));
+  const sharedDevices = useMemo(() => findSharedDevices(attendanceList), [attendanceList]);
+  const deviceFlags = useMemo(() => {
+    const flags = new Map<string, SharedDevice>();
+    // Same-device clusters come first, so they win over fingerprint matches.
+    sharedDevices.forEach(d => d.studentIds.forEach(id => { if (!flags.has(id)) flags.set(id, d); }));
+    return flags;
+  }, [sharedDevices]);
+  const locationFlags = useMemo(() => {
+    const flags = new Map<string, string>();
+    attendanceList.forEach(s => { const flag = locationFlag(s, activeSession); if (flag) flags.set(s.studentId, flag); });
+    return flags;
+  }, [attendanceList, activeSession]);
+  // Fingerprint matches are common between phones of the same model, so they
+  // are shown as hints but never count as flags.
+  const sameDevices = sharedDevices.filter(d => d.kind === 'device');
+  const hasFlags = sameDevices.length > 0 || locationFlags.size > 0;
+  const conflicts = attendanceList.filter(s => s.conflict);
+
+  const timeFiltered = timeFilter === 'all' ? attendanceList : attendanceList.filter(s => s.timestamp >= (currentTime - (timeFilter * 60 * 1000)));
+  const visibleList = sortList(flaggedOnly && hasFlags ? timeFiltered.filter(s => deviceFlags.get(s.studentId)?.kind === 'device' || locationFlags.has(s.studentId)) : timeFiltered);
 
   const handleExportCSV = () => {
     if (attendanceList.length === 0) return;
-    const headers = ['Timestamp', 'Student Name', 'Student ID', 'Email', 'Status'];
+    const headers = ['Timestamp', 'Student Name', 'Student ID', 'Email', 'Status', 'Status Label', 'Device ID', 'Device Flag', 'Latitude', 'Longitude', 'Accuracy (m)', 'Distance (m)', 'Location Flag'];
     const dataToExport = sortList(attendanceList);
-    const csvContent = [headers.join(','), ...dataToExport.map(student => [new Date(student.timestamp).toLocaleString(), `"${student.name}"`, `"${student.studentId}"`, `"${student.email}"`, student.status].join(','))].join('\n');
+    const csvContent = [headers.join(','), ...dataToExport.map(student => [new Date(student.timestamp).toLocaleString(), `"${student.name}"`, `"${student.studentId}"`, `"${student.email}"`, student.status, STATUS_LABELS[student.status], student.deviceId || '', deviceFlags.get(student.studentId)?.kind === 'device' ? 'Shared device' : deviceFlags.has(student.studentId) ? 'Same phone model' : '', student.location?.latitude ?? '', student.location?.longitude ?? '', student.location?.accuracy ?? '', student.location?.distance ?? '', locationFlags.get(student.studentId) || ''].join(','))].join('\n');
     const blob = new Blob(["\ufeff" + csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `attendance-${new Date().toISOString().slice(0, 10)}.csv`;
+    const sessionPart = activeSession ? `${activeSession.courseCode}-W${activeSession.week}-` : '';
+    link.download = `attendance-${sessionPart}${new Date(activeSession ? activeSession.startTime : Date.now()).toISOString().slice(0, 10)}.csv`;
     link.click();
   };
 
   const handleBulkRemove = () => {
     if (selectedIds.size === 0) return;
-    if (window.confirm(`Are you sure you want to remove the ${selectedIds.size} selected students?`)) {
-      onRemoveStudents(Array.from(selectedIds));
-      setSelectedIds(new Set());
-    }
+    const ids = Array.from(selectedIds);
+    setPendingConfirm({
+      title: 'Remove Students',
+      message: `Are you sure you want to remove the ${ids.length} selected students? Their records are deleted from the backend too.`,
+      confirmLabel: 'Remove',
+      destructive: true,
+      onConfirm: reason => { onRemoveStudents(ids, reason); setSelectedIds(new Set()); },
+    });
   };
 
-  const handleBulkStatusChange = (status: 'P' | 'A') => {
+  const handleBulkStatusChange = (status: AttendanceStatus) => {
     if (selectedIds.size === 0) return;
-    const statusLabel = status === 'P' ? 'Present' : 'Absent';
-    if (window.confirm(`Mark ${selectedIds.size} selected students as ${statusLabel}?`)) {
-      onBulkStatusUpdate(Array.from(selectedIds), status);
-      setSelectedIds(new Set());
-    }
+    const ids = Array.from(selectedIds);
+    const statusLabel = STATUS_LABELS[status];
+    setPendingConfirm({
+      title: `Mark ${statusLabel}`,
+      message: `Mark ${ids.length} selected students as ${statusLabel}?`,
+      confirmLabel: `Mark ${statusLabel}`,
+      onConfirm: reason => { onBulkStatusUpdate(ids, status, reason); setSelectedIds(new Set()); },
+    });
+  };
+
+  const handleClearView = () => {
+    if (attendanceList.length === 0) return;
+    setPendingConfirm({
+      title: 'Clear Attendance',
+      message: "Are you sure you want to clear this session's attendance list? Its records are deleted from the backend too, until students scan again. Other sessions are not affected.",
+      confirmLabel: 'Clear',
+      destructive: true,
+      onConfirm: reason => onClearAttendance(reason),
+    });
+  };
+
+  const handleFinalizePreview = () => {
+    if (!activeSession) return;
+    if (!activeRoster || activeRoster.students.length === 0) { alert("Select a roster for this course first, so we know who is missing."); return; }
+    setFinalizeReason('');
+    setFinalizePreview(findAbsentees(activeRoster.students, attendanceList));
   };
 
   // --- STRESS TEST LOGIC ---
   const runStressTest = async () => {
-    if (!scriptUrl || !scriptUrl.startsWith('http')) { alert("Set a valid Script URL first."); return; }
+    if (!backend.isConfigured) { alert("Set a valid backend URL first."); return; }
+    if (!qrSessionId) { alert("Start or reopen a session first."); return; }
     if (!window.confirm("Simulating 230 students.\n\nNOTE: To prevent Google Server Errors (Lock Timeout), we will simulate a realistic queue of students.\n\nThis will take about 3 minutes. Please do not close the tab.")) return;
 
     setTestStats({ total: 230, success: 0, retrying: 0, failed: 0, isRunning: true });
     
     // Prepare 230 test subjects
-    const testPool = [...PRE_REGISTERED_STUDENTS];
+    const testPool = [...rosterStudents];
     // Ensure we have at least 230 items
     while(testPool.length < 230) {
         testPool.push({ id: `STRESS-${testPool.length + 1}-${Date.now()}`, name: `STRESS TESTER ${testPool.length + 1}` });
@@ -201,33 +423,14 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
         chunk.forEach((student) => {
             const attemptSync = async (retries = 0) => {
                 try {
-                    const formData = new URLSearchParams();
-                    formData.append('studentId', student.id);
-                    formData.append('name', student.name);
-                    formData.append('email', `${student.id}@student.uts.edu.my`);
-                    formData.append('status', 'P');
-
-                    // Add cache busting and random param to avoid browser aggressive caching/batching
-                    const uniqueUrl = `${scriptUrl}${scriptUrl.includes('?') ? '&' : '?'}cb=${Date.now()}-${Math.random()}`;
-
-                    const response = await fetch(uniqueUrl, {
-                        method: 'POST',
-                        body: formData,
-                        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                    await backend.submit({
+                        studentId: student.id,
+                        name: student.name,
+                        email: studentEmail(student.id),
+                        status: 'P',
+                        token: await createToken(signingKey, qrSessionId),
                     });
 
-                    if (!response.ok) throw new Error(`HTTP Error ${response.status}`);
-                    
-                    const text = await response.text();
-                    let res;
-                    try {
-                        res = JSON.parse(text);
-                    } catch {
-                        throw new Error("Invalid Server Response");
-                    }
-
-                    if (res.result !== 'success') throw new Error(res.message || "Script Rejected");
-
                     if (isMountedRef.current) {
                         setTestStats(prev => ({ 
                             ...prev, 
@@ -301,19 +504,76 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
                     <UserIcon className="w-3.5 h-3.5" />
                     <span>{attendanceList.length} Unique Scans</span>
                 </div>
+                {viewMode === 'teacher' && (
+                <button onClick={() => setShowRosterManager(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 rounded-full text-xs font-bold border border-gray-300 shadow-sm hover:bg-gray-50 transition-all">
+                    <PencilSquareIcon className="w-3.5 h-3.5" />
+                    <span>{activeRoster ? `${activeRoster.name} (${activeRoster.students.length})` : 'No Roster'}</span>
+                </button>
+                )}
+                {viewMode === 'teacher' && (
+                <button onClick={() => setShowHistory(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 rounded-full text-xs font-bold border border-gray-300 shadow-sm hover:bg-gray-50 transition-all">
+                    <ClockIcon className="w-3.5 h-3.5" />
+                    <span>History</span>
+                </button>
+                )}
+                {viewMode === 'teacher' && (
+                <button onClick={() => setShowAuditLog(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 rounded-full text-xs font-bold border border-gray-300 shadow-sm hover:bg-gray-50 transition-all">
+                    <ClipboardDocumentListIcon className="w-3.5 h-3.5" />
+                    <span>Audit Log</span>
+                </button>
+                )}
+                {viewMode === 'teacher' && (
+                <button onClick={() => setShowConnectionCheck(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 rounded-full text-xs font-bold border border-gray-300 shadow-sm hover:bg-gray-50 transition-all">
+                    <ShieldCheckIcon className="w-3.5 h-3.5" />
+                    <span>Pre-class Check</span>
+                </button>
+                )}
+                {isLive && (
+                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-green-50 text-green-700 rounded-full text-xs font-bold border border-green-200 shadow-sm" title="Scans appear as they happen">
+                        <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                        <span>Live</span>
+                    </div>
+                )}
                 {pendingSyncCount > 0 && (
-                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-full text-xs font-bold border border-blue-200 shadow-sm animate-pulse transition-all">
+                    <button onClick={() => setShowSyncDiagnostics(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-full text-xs font-bold border border-blue-200 shadow-sm animate-pulse transition-all">
                         <GlobeIcon className="w-3.5 h-3.5 animate-spin" style={{ animationDuration: '3s' }} />
                         <span>{pendingSyncCount} Syncing...</span>
-                    </div>
+                        <span className="font-medium text-blue-600" title="Requests in flight / current worker limit, and records saved per minute">
+                            {syncStats.inFlight}/{syncStats.limit} · {Math.round(syncStats.perMinute)}/min
+                        </span>
+                    </button>
+                )}
+                {deadLetters.length > 0 && (
+                    <button onClick={() => setShowSyncDiagnostics(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-red-100 text-red-700 rounded-full text-xs font-bold border border-red-200 shadow-sm hover:bg-red-200 transition-all" title="Records the backend refused">
+                        <XCircleIcon className="w-3.5 h-3.5" />
+                        <span>{deadLetters.length} Failed</span>
+                    </button>
                 )}
             </div>
             
+            {viewMode === 'teacher' && (
+                <SessionPanel
+                    sessions={sessions}
+                    activeSession={activeSession}
+                    onSelectSession={onSelectSession}
+                    onStartSession={(courseCode, section, week, lateAfterMinutes) => {
+                        onStartSession(courseCode, section, week, lateAfterMinutes);
+                        // Catch a broken deployment before students start scanning.
+                        if (backend.kind !== 'local') setShowConnectionCheck(true);
+                    }}
+                    onCloseSession={onCloseSession}
+                    onUpdateSession={onUpdateSession}
+                    onReopenSession={onReopenSession}
+                />
+            )}
+
             {viewMode === 'teacher' && (
                 <div className="flex flex-col gap-2">
                      <div className="flex gap-2">
-                        <button onClick={() => setShowManualModal(true)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-brand-primary text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-brand-secondary transition-colors"><PencilSquareIcon className="w-4 h-4" />Add Student</button>
-                        <button onClick={onOpenKiosk} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 text-xs font-semibold rounded-lg shadow-sm hover:bg-blue-200 transition-colors"><ShieldCheckIcon className="w-4 h-4" />Admin Mode</button>
+                        <button onClick={() => setShowManualModal(true)} disabled={!activeSession} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-brand-primary text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-brand-secondary disabled:opacity-50 transition-colors"><PencilSquareIcon className="w-4 h-4" />Add Student</button>
+                        <button onClick={onOpenKiosk} disabled={!qrSessionId} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 text-xs font-semibold rounded-lg shadow-sm hover:bg-blue-200 disabled:opacity-50 transition-colors"><ShieldCheckIcon className="w-4 h-4" />Admin Mode</button>
+                        <button onClick={handleUndo} disabled={!lastCommand} title={lastCommand ? `Undo: ${lastCommand.label}` : 'Nothing to undo'} className="px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-50 transition-colors"><ArrowUturnLeftIcon className="w-4 h-4" /></button>
+                        <button onClick={handleRedo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'} className="px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-50 transition-colors"><ArrowUturnRightIcon className="w-4 h-4" /></button>
                     </div>
                     <div className="flex flex-wrap gap-2">
                         {selectedIds.size > 0 ? (
@@ -321,15 +581,24 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
                                 <button onClick={() => handleBulkStatusChange('P')} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-green-600 text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-green-700 transition-colors">
                                     <CheckCircleIcon className="w-4 h-4" />Present
                                 </button>
+                                <button onClick={() => handleBulkStatusChange('L')} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-yellow-500 text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-yellow-600 transition-colors">
+                                    <ClockIcon className="w-4 h-4" />Late
+                                </button>
                                 <button onClick={() => handleBulkStatusChange('A')} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-orange-500 text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-orange-600 transition-colors">
                                     <XCircleIcon className="w-4 h-4" />Absent
                                 </button>
+                                <button onClick={() => handleBulkStatusChange('E')} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-500 text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-blue-600 transition-colors">
+                                    <ShieldCheckIcon className="w-4 h-4" />Excused
+                                </button>
                                 <button onClick={handleBulkRemove} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-600 text-white text-xs font-semibold rounded-lg shadow-sm hover:bg-red-700 transition-colors">
                                     <TrashIcon className="w-4 h-4" />Remove
                                 </button>
                             </div>
                         ) : (
-                            <button onClick={onClearAttendance} disabled={attendanceList.length === 0} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-100 text-red-700 text-xs font-semibold rounded-lg disabled:opacity-50 transition-colors"><TrashIcon className="w-4 h-4" />Clear View</button>
+                            <button onClick={handleClearView} disabled={attendanceList.length === 0} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-100 text-red-700 text-xs font-semibold rounded-lg disabled:opacity-50 transition-colors"><TrashIcon className="w-4 h-4" />Clear View</button>
+                        )}
+                        {selectedIds.size === 0 && (
+                            <button onClick={handleFinalizePreview} disabled={!activeSession} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-orange-100 text-orange-700 text-xs font-semibold rounded-lg disabled:opacity-50 transition-colors"><CheckCircleIcon className="w-4 h-4" />Finalize</button>
                         )}
                         <button onClick={handleExportCSV} disabled={attendanceList.length === 0} className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-brand-secondary text-white text-xs font-semibold rounded-lg shadow-md transition-colors ${selectedIds.size > 0 ? 'hidden sm:flex' : ''}`}><DownloadIcon className="w-4 h-4" />Export CSV</button>
                     </div>
@@ -337,6 +606,43 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
             )}
           </div>
           
+          {viewMode === 'teacher' && hasFlags && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-bold">
+                  {[
+                    sameDevices.length > 0 ? `${sameDevices.length} device${sameDevices.length > 1 ? 's' : ''} submitted more than one student ID` : '',
+                    locationFlags.size > 0 ? `${locationFlags.size} scan${locationFlags.size > 1 ? 's' : ''} outside the classroom or without location` : '',
+                  ].filter(Boolean).join(' · ')}
+                </p>
+                <button onClick={() => setFlaggedOnly(!flaggedOnly)} className="px-2 py-1 bg-white border border-red-200 rounded font-semibold hover:bg-red-100">{flaggedOnly ? 'Show All' : 'Review Flagged'}</button>
+              </div>
+              {sameDevices.map(d => (
+                <p key={`${d.kind}-${d.key}`}>
+                  <span className="font-semibold">Same device:</span> <span className="font-mono">{d.studentIds.join(', ')}</span>
+                </p>
+              ))}
+              {sameDevices.length > 0 && <p className="text-red-700">Device IDs are reported by the phones themselves, so treat this as a lead to check, not proof.</p>}
+            </div>
+          )}
+
+          {viewMode === 'teacher' && conflicts.length > 0 && (
+            <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-900 space-y-1">
+              <p className="font-bold">{conflicts.length} record{conflicts.length > 1 ? 's were' : ' was'} changed on two devices at once. The later change was kept.</p>
+              {conflicts.map(s => (
+                <div key={s.studentId} className="flex items-center justify-between gap-2">
+                  <p>
+                    <span className="font-mono font-semibold">{s.studentId}</span>: kept {STATUS_LABELS[s.status]} over {STATUS_LABELS[s.conflict!.status]}, set {s.conflict!.source === 'local' ? 'on this device' : 'on another device'} at {new Date(s.conflict!.updatedAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second: '2-digit'})}
+                  </p>
+                  <div className="flex gap-1 shrink-0">
+                    <button onClick={() => onResolveConflict(s.studentId, true)} className="px-2 py-1 bg-white border border-yellow-200 rounded font-semibold hover:bg-yellow-100">Use {STATUS_LABELS[s.conflict!.status]}</button>
+                    <button onClick={() => onResolveConflict(s.studentId, false)} className="px-2 py-1 bg-white border border-yellow-200 rounded font-semibold hover:bg-yellow-100">Keep {STATUS_LABELS[s.status]}</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="bg-base-100 rounded-lg p-2 max-h-[600px] overflow-y-auto shadow-sm border border-base-300">
             {visibleList.length === 0 ? (
               <p className="text-gray-500 text-center py-8">No records to display.</p>
@@ -355,11 +661,28 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
                     {visibleList.map((student) => (
                       <tr key={`${student.studentId}-${student.timestamp}`} className={`border-b border-base-200 hover:bg-base-300 ${selectedIds.has(student.studentId) ? 'bg-indigo-50' : ''}`}>
                         {viewMode === 'teacher' && <td className="px-4 py-3"><input type="checkbox" checked={selectedIds.has(student.studentId)} onChange={() => { const next = new Set(selectedIds); if(next.has(student.studentId)) next.delete(student.studentId); else next.add(student.studentId); setSelectedIds(next); }} /></td>}
-                        <td className="px-4 py-3 font-mono font-bold">{student.studentId}</td>
+                        <td className="px-4 py-3 font-mono font-bold">
+                            {student.studentId}
+                            {deviceFlags.has(student.studentId) && (
+                                <span title={deviceFlags.get(student.studentId)!.kind === 'device' ? 'The phone reported the same device ID as for other students' : 'Same browser and phone model as other students, which is common and proves nothing by itself'} className={`ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-sans font-semibold ${deviceFlags.get(student.studentId)!.kind === 'device' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-500'}`}>
+                                    {deviceFlags.get(student.studentId)!.kind === 'device' ? 'Shared device' : 'Same phone model'}
+                                </span>
+                            )}
+                            {locationFlags.has(student.studentId) && (
+                                <span title={student.location ? `Accuracy ±${Math.round(student.location.accuracy)} m` : 'The phone did not share its location'} className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-sans font-semibold bg-yellow-100 text-yellow-800">
+                                    {locationFlags.get(student.studentId)}
+                                </span>
+                            )}
+                        </td>
                         <td className="px-4 py-3">
-                            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${student.status === 'P' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                                {student.status === 'P' ? 'Present' : 'Absent'}
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGE_CLASSES[student.status]}`}>
+                                {STATUS_LABELS[student.status]}
                             </span>
+                            {student.conflict && (
+                                <span title={`Also set to ${STATUS_LABELS[student.conflict.status]} on ${student.conflict.source === 'local' ? 'this device' : 'another device'}`} className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold bg-yellow-100 text-yellow-800">
+                                    Conflict
+                                </span>
+                            )}
                         </td>
                         <td className="px-4 py-3 text-right text-gray-500">{new Date(student.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</td>
                       </tr>
@@ -380,11 +703,52 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
                   
                   {showEmailSetup && (
                     <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4">
-                      <GoogleSheetIntegrationInfo />
                       <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">Google Web App URL</label>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Storage Backend</label>
+                          <select value={backendKind} onChange={(e) => { if (isBackendKind(e.target.value)) onBackendKindChange(e.target.value); }} className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-600">
+                              {(Object.keys(BACKEND_LABELS) as BackendKind[]).map(kind => (
+                                  <option key={kind} value={kind}>{BACKEND_LABELS[kind]}</option>
+                              ))}
+                          </select>
+                      </div>
+                      {backendKind === 'apps-script' && (
+                          <>
+                              <SheetLayoutEditor layout={sheetLayout} onChange={onSheetLayoutChange} />
+                              <GoogleSheetIntegrationInfo layout={sheetLayout} />
+                          </>
+                      )}
+                      {backendKind === 'local' ? (
+                          <p className="text-xs text-gray-500">Records stay in this browser. Students must check in on this device (kiosk mode); no QR code is shown.</p>
+                      ) : (
+                      <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">{backendKind === 'rest' ? 'Server Base URL' : 'Google Web App URL'}</label>
                           <input type="text" value={scriptUrl} onChange={(e) => onScriptUrlChange(e.target.value)} className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-600" />
                       </div>
+                      )}
+                      {backendKind !== 'local' && (
+                      <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Teacher Token <span className="text-xs text-gray-400 font-normal">(server TEACHER_TOKEN)</span></label>
+                          <input type="password" value={teacherToken} onChange={(e) => onTeacherTokenChange(e.target.value)} autoComplete="off" className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-xs font-mono text-gray-600" />
+                          {backendKind === 'apps-script' && <p className="text-xs text-gray-500 mt-1">Only for the self-hosted server. Leave it empty for a Google script, which cannot accept it.</p>}
+                      </div>
+                      )}
+                      {backendKind !== 'local' && (
+                      <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Max Parallel Requests <span className="text-xs text-gray-400 font-normal">(default {DEFAULT_SYNC_CEILINGS[backendKind]})</span></label>
+                          <input type="number" min={1} max={MAX_SYNC_CEILING} value={syncCeiling} onChange={(e) => onSyncCeilingChange(Number(e.target.value))} className="block w-24 bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-600" />
+                          <p className="text-xs text-gray-500 mt-1">Sync starts with one request at a time and adds more while the backend keeps up, halving on errors.</p>
+                      </div>
+                      )}
+                      <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">QR Signing Key <span className="text-xs text-gray-400 font-normal">(Script Property: TOKEN_SECRET)</span></label>
+                          <div className="flex gap-2">
+                              <input type={showSigningKey ? 'text' : 'password'} value={signingKey} readOnly className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-xs font-mono text-gray-600" />
+                              <button onClick={() => setShowSigningKey(!showSigningKey)} className="px-2 rounded-md bg-base-100 hover:bg-base-300 text-gray-600">
+                                  {showSigningKey ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                              </button>
+                              <button onClick={() => { if (window.confirm('Generate a new signing key? You must update TOKEN_SECRET in Apps Script, otherwise every scan will be rejected.')) onSigningKeyChange(generateSigningKey()); }} className="px-3 rounded-md bg-red-100 text-red-700 text-xs font-semibold hover:bg-red-200">Regenerate</button>
+                          </div>
+                      </div>
                       
                       {/* STRESS TEST BOX */}
                       <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
@@ -424,7 +788,17 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
 
           <h2 className="text-2xl font-bold mb-4 text-brand-primary">Scan to Check-in</h2>
           <div className="bg-white p-4 rounded-lg shadow-inner border border-gray-200 relative min-h-[300px] flex items-center justify-center">
-             {isQrLoading && (
+             {!qrSessionId ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-white z-10 rounded-lg p-6 text-center">
+                    <ClockIcon className="w-12 h-12 text-gray-300 mb-2" />
+                    <p className="text-sm text-gray-500">{activeSession ? 'This session is closed. Reopen it or start a new session to show the QR code.' : 'Start a session to show the QR code.'}</p>
+                </div>
+             ) : qrUnavailable ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-white z-10 rounded-lg p-6 text-center">
+                    <QrCodeIcon className="w-12 h-12 text-gray-300 mb-2" />
+                    <p className="text-sm text-gray-500">{BACKEND_LABELS.local} keeps records in this browser, so phones cannot check in. Use kiosk mode, or choose a cloud backend in Configure Cloud Recording to show the QR code.</p>
+                </div>
+             ) : isQrLoading && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-white z-10 rounded-lg">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary mb-2"></div>
                     <p className="text-sm text-gray-500">Generating Secure QR...</p>
@@ -432,10 +806,131 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
              )}
             <canvas ref={canvasRef} className="rounded-md w-full h-auto block" />
           </div>
-          <p className="text-gray-500 text-sm mt-4 text-center">Refreshes every second for high security.</p>
+          {verificationCode && (
+            <div className="mt-4 text-center">
+                <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Classroom Code</p>
+                <p className="text-5xl font-mono font-black tracking-[0.3em] text-gray-900">{verificationCode}</p>
+                <p className="text-xs text-gray-400">Changes in {codeSecondsLeft}s</p>
+            </div>
+          )}
+          {activeSession && <p className="text-brand-primary text-sm font-bold mt-4 text-center">{sessionLabel(activeSession)}</p>}
+          <p className="text-gray-500 text-sm mt-1 text-center">Refreshes every second for high security.</p>
         </div>
       </div>
 
+      {showRosterManager && (
+        <RosterManager
+            rosters={rosters}
+            activeRosterId={activeRoster ? activeRoster.id : ''}
+            defaultCourseCode={activeSession?.courseCode}
+            onSelectRoster={onSelectRoster}
+            onSaveRoster={onSaveRoster}
+            onDeleteRoster={onDeleteRoster}
+            onClose={() => setShowRosterManager(false)}
+        />
+      )}
+
+      {showConnectionCheck && (
+        <ConnectionCheck
+            backend={backend}
+            expectedVersion={APPS_SCRIPT_VERSION}
+            expectedSheets={expectedSheets}
+            signingKey={signingKey}
+            pendingSyncCount={pendingSyncCount}
+            onClose={() => setShowConnectionCheck(false)}
+        />
+      )}
+
+      {showSyncDiagnostics && (
+        <SyncDiagnostics
+            syncQueue={syncQueue}
+            deadLetters={deadLetters}
+            onRetryDeadLetter={onRetryDeadLetter}
+            onDiscardDeadLetter={onDiscardDeadLetter}
+            onDiscardSyncTask={onDiscardSyncTask}
+            onClose={() => setShowSyncDiagnostics(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryReport backend={backend} sessions={sessions} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showAuditLog && (
+        <AuditLog
+            entries={auditLog}
+            sessions={sessions}
+            activeSessionId={activeSession?.id || ''}
+            actor={auditActor}
+            onActorChange={onAuditActorChange}
+            onClose={() => setShowAuditLog(false)}
+        />
+      )}
+
+      {toast && (
+        <UndoToast
+            message={toast.message}
+            actionLabel={toast.canUndo ? 'Undo' : undefined}
+            onAction={handleUndo}
+            onDismiss={dismissToast}
+        />
+      )}
+
+      {pendingConfirm && (
+        <ConfirmDialog
+            title={pendingConfirm.title}
+            message={pendingConfirm.message}
+            confirmLabel={pendingConfirm.confirmLabel}
+            destructive={pendingConfirm.destructive}
+            onConfirm={reason => { pendingConfirm.onConfirm(reason); setPendingConfirm(null); }}
+            onCancel={() => setPendingConfirm(null)}
+        />
+      )}
+
+      {finalizePreview && activeSession && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+                    <h3 className="text-lg font-bold text-gray-900">Finalize {sessionLabel(activeSession)}</h3>
+                    <button onClick={() => setFinalizePreview(null)} className="text-gray-400 hover:text-gray-500 font-bold text-xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4">
+                    {finalizePreview.length === 0 ? (
+                        <p className="text-sm text-green-700 font-medium">Everyone on {activeRoster?.name} has a record. Nobody will be marked absent.</p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-gray-700">
+                                <strong>{finalizePreview.length}</strong> of {activeRoster?.students.length} students on {activeRoster?.name} did not check in and will be marked <strong className="text-red-700">Absent</strong>.
+                            </p>
+                            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                                <table className="w-full text-xs text-left text-gray-700">
+                                    <tbody>
+                                        {finalizePreview.map(s => (
+                                            <tr key={s.id} className="border-b border-gray-100">
+                                                <td className="px-3 py-1.5 font-mono font-bold">{s.id}</td>
+                                                <td className="px-3 py-1.5">{s.name}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                    {activeSession.status === 'open' && <p className="text-xs text-gray-500">The session will be closed, so late scans are no longer accepted.</p>}
+                    {finalizePreview.length > 0 && (
+                        <input type="text" value={finalizeReason} onChange={(e) => setFinalizeReason(e.target.value)} placeholder="Reason (optional, kept in the audit log)" className="block w-full border border-gray-300 rounded-md p-2 text-sm" />
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={() => { onFinalizeSession(finalizePreview, finalizeReason.trim() || undefined); setFinalizePreview(null); }} className="flex-1 py-2 bg-brand-primary text-white rounded font-bold">
+                            {finalizePreview.length > 0 ? `Mark ${finalizePreview.length} Absent` : 'Finalize'}
+                        </button>
+                        <button onClick={() => setFinalizePreview(null)} className="flex-1 py-2 bg-gray-200 text-gray-700 rounded font-bold">Cancel</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+      )}
+
       {showManualModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
             <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
@@ -445,22 +940,24 @@ export const TeacherView: React.FC<TeacherViewProps> = ({
                 </div>
                 <form onSubmit={(e) => {
                     e.preventDefault();
-                    const res = onManualAdd(manualName, manualId, `${manualId}@student.uts.edu.my`, manualStatus);
-                    if(res.success) { setShowManualModal(false); setManualId(''); setManualName(''); }
+                    const res = onManualAdd(manualName, manualId, studentEmail(manualId), manualStatus, manualReason.trim() || undefined);
+                    if(res.success) { setShowManualModal(false); setManualId(''); setManualName(''); setManualReason(''); }
                     else { setManualError(res.message); }
                 }} className="p-6 space-y-4">
                     <input type="text" value={manualId} onChange={(e) => {
                         const val = e.target.value.toUpperCase();
                         setManualId(val);
-                        const matched = PRE_REGISTERED_STUDENTS.find(s => s.id === val);
+                        const matched = rosterStudents.find(s => s.id === val);
                         if(matched) { setManualName(matched.name); setManualIsNew(false); }
                         else { setManualIsNew(true); }
                     }} placeholder="Student ID (FIA...)" className="block w-full border border-gray-300 rounded-md p-2 uppercase" />
                     <input type="text" value={manualName} onChange={(e) => setManualName(e.target.value.toUpperCase())} readOnly={!manualIsNew && manualName.length > 0} placeholder="Full Name" className={`block w-full border border-gray-300 rounded-md p-2 uppercase ${!manualIsNew && manualName.length > 0 ? 'bg-gray-100' : ''}`} />
-                    <div className="flex gap-4">
-                        <label className="flex items-center text-sm"><input type="radio" checked={manualStatus === 'P'} onChange={() => setManualStatus('P')} className="mr-2"/>Present</label>
-                        <label className="flex items-center text-sm"><input type="radio" checked={manualStatus === 'A'} onChange={() => setManualStatus('A')} className="mr-2"/>Absent</label>
+                    <div className="flex flex-wrap gap-4">
+                        {ATTENDANCE_STATUSES.map(status => (
+                            <label key={status} className="flex items-center text-sm"><input type="radio" checked={manualStatus === status} onChange={() => setManualStatus(status)} className="mr-2"/>{STATUS_LABELS[status]}</label>
+                        ))}
                     </div>
+                    <input type="text" value={manualReason} onChange={(e) => setManualReason(e.target.value)} placeholder="Reason (optional, kept in the audit log)" className="block w-full border border-gray-300 rounded-md p-2 text-sm" />
                     {manualError && <p className="text-xs text-red-600">{manualError}</p>}
                     <button type="submit" className="w-full py-2 bg-brand-primary text-white rounded font-bold">Confirm Add</button>
                 </form>
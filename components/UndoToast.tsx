@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+
+const TOAST_MS = 8000;
+
+interface UndoToastProps {
+  message: string;
+  // Shown as a button, e.g. "Undo"; omitted for plain notices.
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, actionLabel, onAction, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-xl">
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button onClick={onAction} className="font-bold text-indigo-300 hover:text-indigo-200 uppercase text-xs tracking-wide">{actionLabel}</button>
+      )}
+      <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200 font-bold">&times;</button>
+    </div>
+  );
+};
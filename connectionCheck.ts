@@ -0,0 +1,100 @@
+import type { AttendanceBackend } from './backends';
+import { createToken } from './qrToken';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export interface CheckItem {
+  id: string;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface ConnectionCheckOptions {
+  // The Apps Script version this app ships (see GoogleSheetIntegrationInfo).
+  expectedVersion: string;
+  expectedSheets: string[];
+  signingKey: string;
+  pendingSyncCount: number;
+}
+
+// A lock that takes this long to get means scans are already queueing up.
+export const LOCK_WAIT_WARN_MS = 2000;
+
+/** Compares dotted versions numerically: -1, 0 or 1. */
+export const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  return 0;
+};
+
+/** Asks the backend about itself and turns the answers into a pre-class checklist. */
+export const runConnectionCheck = async (backend: AttendanceBackend, options: ConnectionCheckOptions): Promise<CheckItem[]> => {
+  const items: CheckItem[] = [];
+  const queueItem: CheckItem = options.pendingSyncCount > 0
+    ? { id: 'queue', label: 'Sync queue', status: 'warn', detail: `${options.pendingSyncCount} records on this device are still waiting to be sent.` }
+    : { id: 'queue', label: 'Sync queue', status: 'ok', detail: 'Everything recorded on this device has been sent.' };
+
+  if (!backend.isConfigured) {
+    return [{ id: 'reachable', label: 'Connection', status: 'fail', detail: 'No backend URL is set.' }, queueItem];
+  }
+  const health = await backend.health();
+  if (!health.ok) {
+    return [{ id: 'reachable', label: 'Connection', status: 'fail', detail: health.message || 'The backend did not answer.' }, queueItem];
+  }
+  items.push({ id: 'reachable', label: 'Connection', status: 'ok', detail: health.message || 'The backend answered.' });
+  if (backend.kind === 'local') return [...items, queueItem];
+
+  if (backend.kind === 'apps-script' && !health.selfHosted) {
+    if (!health.version) {
+      items.push({ id: 'version', label: 'Script version', status: 'warn', detail: `The deployed script is older than v${options.expectedVersion}. Copy the script again and deploy a new version.` });
+    } else if (compareVersions(health.version, options.expectedVersion) < 0) {
+      items.push({ id: 'version', label: 'Script version', status: 'warn', detail: `Deployed v${health.version}, but this app ships v${options.expectedVersion}. Copy the script again and deploy a new version.` });
+    } else {
+      items.push({ id: 'version', label: 'Script version', status: 'ok', detail: `v${health.version}` });
+    }
+  } else if (health.version) {
+    items.push({ id: 'version', label: 'Server version', status: 'ok', detail: `v${health.version}` });
+  }
+
+  if (health.sheets) {
+    const missing = health.sheets.filter(s => !s.found).map(s => s.name);
+    const deployed = new Set(health.sheets.map(s => s.name));
+    const differs = options.expectedSheets.length !== deployed.size || options.expectedSheets.some(name => !deployed.has(name));
+    if (missing.length > 0) {
+      items.push({ id: 'sheets', label: 'Sheets', status: 'fail', detail: `Not found in the spreadsheet: ${missing.join(', ')}.` });
+    } else if (differs) {
+      items.push({ id: 'sheets', label: 'Sheets', status: 'warn', detail: `The deployed script uses ${Array.from(deployed).join(', ')}, not the layout set here. Copy the script again.` });
+    } else {
+      items.push({ id: 'sheets', label: 'Sheets', status: 'ok', detail: health.sheets.map(s => s.name).join(', ') });
+    }
+  }
+
+  if (health.timezone) {
+    const local = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    items.push(health.timezone === local
+      ? { id: 'timezone', label: 'Time zone', status: 'ok', detail: health.timezone }
+      : { id: 'timezone', label: 'Time zone', status: 'warn', detail: `Records are dated in ${health.timezone} but this device is in ${local}. Scans near midnight may land in the wrong date column.` });
+  }
+
+  if (health.lockWaitMs !== undefined) {
+    items.push(health.lockWaitMs > LOCK_WAIT_WARN_MS
+      ? { id: 'lock', label: 'Lock contention', status: 'warn', detail: `Waited ${(health.lockWaitMs / 1000).toFixed(1)}s for the write lock. Other requests are keeping the backend busy.` }
+      : { id: 'lock', label: 'Lock contention', status: 'ok', detail: `Lock free (${health.lockWaitMs} ms).` });
+  }
+
+  if (health.verifiesTokens === false) {
+    items.push({ id: 'tokens', label: 'QR token check', status: 'fail', detail: 'TOKEN_SECRET is not set, so the backend rejects every check-in.' });
+  } else if (options.signingKey) {
+    const check = await backend.verifyToken(await createToken(options.signingKey, 'connection-check'));
+    if (!check) items.push({ id: 'tokens', label: 'QR token check', status: 'warn', detail: 'Could not ask the backend to verify a token.' });
+    else if (!check.valid) items.push({ id: 'tokens', label: 'QR token check', status: 'fail', detail: `A fresh QR token was rejected (${check.reason || 'invalid'}). TOKEN_SECRET must match the signing key shown here.` });
+    else items.push({ id: 'tokens', label: 'QR token check', status: 'ok', detail: 'TOKEN_SECRET matches this device\'s signing key.' });
+  }
+
+  return [...items, queueItem];
+};
@@ -0,0 +1,140 @@
+import type { Student } from './types';
+
+// Tells the teacher when one phone checked in several students. Each phone
+// keeps a P-256 key pair in IndexedDB whose private half cannot be exported,
+// and signs every check-in with it (see checkInMessage). The device ID is a
+// hash of the public key and the backends verify the signature, so a phone
+// cannot send another phone's ID or reuse one of its check-ins for someone
+// else. A browser that loses its storage (cleared site data, a private tab)
+// makes a new key, and with it a new ID. The fingerprint is a hash of browser
+// traits, which every phone of the same model and browser shares, so a match
+// is only a hint.
+
+export interface DeviceIdentity {
+  deviceId: string;
+  fingerprint: string;
+  // Raw uncompressed P-256 public key, base64url.
+  publicKey: string;
+}
+
+export interface SharedDevice {
+  // 'device': the same device ID submitted every student ID. 'fingerprint':
+  // identical browser traits only, as with two phones of the same model.
+  kind: 'device' | 'fingerprint';
+  key: string;
+  studentIds: string[];
+}
+
+const DB_NAME = 'attendance-device';
+const STORE_NAME = 'keys';
+const KEY_PAIR_ID = 'device-key-v1';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const sha256Hex = async (data: BufferSource, length = 16): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data))).slice(0, length);
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const idbRequest = <T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const generateKeyPair = () =>
+  crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+const loadKeyPair = async (): Promise<CryptoKeyPair> => {
+  try {
+    const db = await openDb();
+    try {
+      const saved = await idbRequest<CryptoKeyPair | undefined>(db, 'readonly', store => store.get(KEY_PAIR_ID));
+      if (saved && saved.privateKey) return saved;
+      const created = await generateKeyPair();
+      await idbRequest(db, 'readwrite', store => store.put(created, KEY_PAIR_ID));
+      return created;
+    } finally {
+      db.close();
+    }
+  } catch (e) {
+    // Some private modes have no IndexedDB; a key for this visit still signs.
+    console.warn('Device key storage unavailable:', e);
+    return generateKeyPair();
+  }
+};
+
+const browserTraits = () => [
+  navigator.userAgent,
+  navigator.language,
+  navigator.hardwareConcurrency,
+  (navigator as Navigator & { deviceMemory?: number }).deviceMemory,
+  navigator.maxTouchPoints,
+  screen.width,
+  screen.height,
+  screen.colorDepth,
+  window.devicePixelRatio,
+  Intl.DateTimeFormat().resolvedOptions().timeZone,
+].join('|');
+
+let keyPairPromise: Promise<CryptoKeyPair> | null = null;
+
+const getKeyPair = (): Promise<CryptoKeyPair> => {
+  if (!keyPairPromise) {
+    keyPairPromise = loadKeyPair();
+    keyPairPromise.catch(() => { keyPairPromise = null; });
+  }
+  return keyPairPromise;
+};
+
+export const getDeviceIdentity = async (): Promise<DeviceIdentity> => {
+  const keyPair = await getKeyPair();
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  return {
+    deviceId: await sha256Hex(publicKey),
+    fingerprint: await sha256Hex(new TextEncoder().encode(browserTraits())),
+    publicKey: toBase64Url(publicKey),
+  };
+};
+
+/** What a phone signs for a check-in. The backends rebuild the same string. */
+export const checkInMessage = (token: string, studentId: string) => `check-in.${token}.${studentId}`;
+
+/** ECDSA P-256 over checkInMessage, base64url, as the backends verify it. */
+export const signCheckIn = async (token: string, studentId: string): Promise<string> => {
+  const keyPair = await getKeyPair();
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, new TextEncoder().encode(checkInMessage(token, studentId)));
+  return toBase64Url(new Uint8Array(signature));
+};
+
+/** Device IDs, and as hints identical fingerprints, that submitted more than one student ID. */
+export const findSharedDevices = (records: Student[]): SharedDevice[] => {
+  const group = (kind: SharedDevice['kind'], keyOf: (s: Student) => string | undefined): SharedDevice[] => {
+    const byKey = new Map<string, Set<string>>();
+    records.forEach(s => {
+      const key = keyOf(s);
+      if (!key) return;
+      if (!byKey.has(key)) byKey.set(key, new Set());
+      byKey.get(key)!.add(s.studentId);
+    });
+    return Array.from(byKey.entries())
+      .filter(([, ids]) => ids.size > 1)
+      .map(([key, ids]) => ({ kind, key, studentIds: Array.from(ids).sort() }));
+  };
+
+  const devices = group('device', s => s.deviceId);
+  const flagged = new Set(devices.flatMap(d => d.studentIds));
+  // A fingerprint cluster already covered by a device cluster adds nothing.
+  const fingerprints = group('fingerprint', s => s.deviceFingerprint)
+    .filter(f => f.studentIds.some(id => !flagged.has(id)));
+  return [...devices, ...fingerprints];
+};
@@ -0,0 +1,83 @@
+import type { Geofence, ScanLocation, Session, Student } from './types';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 100;
+export const LOCATION_TIMEOUT_MS = 15000;
+// GPS indoors is often off by tens of metres; forgive up to this much of the
+// reported accuracy, but no more, or a 2 km cell-tower fix would pass anywhere.
+const MAX_ACCURACY_ALLOWANCE_METERS = 50;
+
+export type LocationErrorCode = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+export class LocationError extends Error {
+  constructor(readonly code: LocationErrorCode, message: string) {
+    super(message);
+    this.name = 'LocationError';
+  }
+}
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+/** Great-circle distance in metres (haversine). */
+export const distanceMeters = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number => {
+  const R = 6371000;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+};
+
+export const getCurrentLocation = (timeoutMs: number = LOCATION_TIMEOUT_MS): Promise<LocationFix> => new Promise((resolve, reject) => {
+  if (!('geolocation' in navigator)) {
+    reject(new LocationError('unsupported', 'This browser cannot share its location.'));
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(
+    pos => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+    err => {
+      if (err.code === err.PERMISSION_DENIED) reject(new LocationError('denied', 'Location permission was denied.'));
+      else if (err.code === err.TIMEOUT) reject(new LocationError('timeout', 'Finding your location took too long.'));
+      else reject(new LocationError('unavailable', 'Your location is not available right now.'));
+    },
+    { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 }
+  );
+});
+
+export const toScanLocation = (geofence: Geofence, fix: LocationFix): ScanLocation => ({
+  ...fix,
+  distance: Math.round(distanceMeters(geofence, fix)),
+});
+
+export const isInsideGeofence = (geofence: Geofence, location: ScanLocation): boolean =>
+  location.distance <= geofence.radiusMeters + Math.min(location.accuracy, MAX_ACCURACY_ALLOWANCE_METERS);
+
+// QR tokens carry the geofence as `<lat>_<lng>_<radius>_<r|f>`, degrees in
+// millionths and the radius in metres, all integers so the signed text reads
+// back exactly. The backends parse the same form.
+export const encodeGeofence = (g: Geofence): string =>
+  `${Math.round(g.latitude * 1e6)}_${Math.round(g.longitude * 1e6)}_${Math.round(g.radiusMeters)}_${g.policy === 'reject' ? 'r' : 'f'}`;
+
+export const parseGeofence = (value: string): Geofence | undefined => {
+  const match = /^(-?\d+)_(-?\d+)_(\d+)_([rf])$/.exec(value);
+  if (!match || !(Number(match[3]) > 0)) return undefined;
+  return { latitude: Number(match[1]) / 1e6, longitude: Number(match[2]) / 1e6, radiusMeters: Number(match[3]), policy: match[4] === 'r' ? 'reject' : 'flag' };
+};
+
+/**
+ * Why a scan needs review. The backend judges each scan against the geofence
+ * signed into its token and stores its verdict; records from backends that
+ * predate that are judged here against the session's own geofence. Teacher
+ * entries carry no device and are never flagged.
+ */
+export const locationFlag = (record: Student, session: Session | null): string | null => {
+  if (record.locationFlag) return record.locationFlag;
+  if (!session?.geofence || !record.deviceId) return null;
+  if (!record.location) return 'No location';
+  const location = { ...record.location, distance: Math.round(distanceMeters(session.geofence, record.location)) };
+  return isInsideGeofence(session.geofence, location) ? null : `Outside (${location.distance} m)`;
+};
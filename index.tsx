@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { TeacherLogin } from './components/TeacherLogin';
+import { EMPTY_STATE, loadStoredState } from './storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,25 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Students arrive through a QR link (?t=); everyone else needs the teacher PIN.
+const isStudentLink = new URLSearchParams(window.location.search).has('t');
+// Old localStorage data is migrated the first time the database opens. Without
+// IndexedDB (some private windows) the app still runs, but forgets on reload.
+loadStoredState()
+  .catch(err => {
+    console.error('Could not open storage:', err);
+    return EMPTY_STATE;
+  })
+  .then(stored => root.render(
+    <React.StrictMode>
+      {isStudentLink ? <App stored={stored} /> : <TeacherLogin stored={stored} />}
+    </React.StrictMode>
+  ));
+
+// The service worker caches the shell and sends queued check-ins after the tab
+// closes. Not in development, where it would serve stale modules.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('sw.js').catch(err => console.warn('Service worker registration failed:', err));
+  });
+}
@@ -0,0 +1,80 @@
+// Check-ins waiting on a student's phone, kept in IndexedDB so the service
+// worker (public/sw.js) can send them with Background Sync after the tab is
+// closed. The database layout below must match the one in sw.js.
+
+import type { OutboxRequest } from './backends';
+
+export const OUTBOX_DB = 'attendance-outbox';
+export const OUTBOX_STORE = 'requests';
+export const OUTBOX_SYNC_TAG = 'attendance-outbox';
+
+export interface OutboxEntry {
+  id: string;
+  request: OutboxRequest;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  // Set when the backend refused the record; the worker stops sending it. The
+  // entry is kept until the student has been told.
+  failedAt?: number;
+  // Who checked in, so a refusal seen on a later visit can say whose it was.
+  studentId?: string;
+}
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+const openOutbox = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const open = indexedDB.open(OUTBOX_DB, 1);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(OUTBOX_STORE)) open.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => reject(open.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(OUTBOX_STORE, mode);
+      const request = run(tx.objectStore(OUTBOX_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/** True once a service worker controls the page, so queued check-ins survive the tab. */
+export const isOutboxAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && 'serviceWorker' in navigator && !!navigator.serviceWorker.controller;
+
+export const readOutbox = (): Promise<OutboxEntry[]> => withStore<OutboxEntry[]>('readonly', store => store.getAll());
+
+export const newOutboxEntry = (id: string, request: OutboxRequest, studentId?: string): OutboxEntry => ({ id, request, createdAt: Date.now(), attempts: 0, ...(studentId ? { studentId } : {}) });
+
+export const addToOutbox = (entry: OutboxEntry): Promise<IDBValidKey> => withStore('readwrite', store => store.put(entry));
+
+export const removeFromOutbox = (id: string): Promise<undefined> => withStore('readwrite', store => store.delete(id));
+
+/**
+ * Asks the service worker to send the outbox: through Background Sync where the
+ * browser has it, so it still happens after the tab closes, otherwise right away.
+ */
+export const scheduleOutboxFlush = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+  if (registration.sync) {
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+      return;
+    } catch (e) {
+      // Registration is refused when the user turned background sync off.
+    }
+  }
+  registration.active?.postMessage({ type: 'flush-outbox' });
+};
@@ -0,0 +1,165 @@
+// Service worker: keeps the app shell cached so the check-in page opens on
+// weak Wi-Fi, and sends the check-ins queued in IndexedDB by outbox.ts, also
+// after the tab has been closed.
+
+// Filled in by vite.config.ts on build: a version that changes with every
+// deploy, and the hashed scripts and styles the page needs to start offline.
+const BUILD_VERSION = 'dev';
+const BUILD_FILES = [];
+
+const SHELL_CACHE = 'attendance-shell-' + BUILD_VERSION;
+const SHELL_FILES = ['./', './index.html', './manifest.webmanifest', './icon.svg', './icon-192.png', './icon-512.png', ...BUILD_FILES];
+// Scripts index.html loads from other origins.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+
+// Must match outbox.ts.
+const OUTBOX_DB = 'attendance-outbox';
+const OUTBOX_STORE = 'requests';
+const OUTBOX_SYNC_TAG = 'attendance-outbox';
+
+// Apps Script can hold a request for 30s while it waits for the sheet lock.
+const REQUEST_TIMEOUT_MS = 35000;
+
+// Rejections that retrying cannot fix: PERMANENT_ERRORS from syncQueue.ts,
+// filled in by vite.config.ts on build.
+const PERMANENT_ERRORS = [];
+// HTTP answers that retrying cannot fix either: a malformed request, or a
+// missing or refused token.
+const PERMANENT_STATUSES = [400, 401, 403];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE)
+    .then(cache => cache.addAll(SHELL_FILES))
+    .then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: network first so a new deploy shows up, the cached shell when offline.
+  // Every QR link (?t=...) is the same page.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request)
+      .then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.put('./', copy)));
+        }
+        return response;
+      })
+      .catch(() => caches.match('./')));
+    return;
+  }
+
+  // Backend calls and anything with a query string always go to the network.
+  const isAsset = url.origin === self.location.origin ? !url.search : CDN_HOSTS.includes(url.hostname);
+  if (!isAsset) return;
+
+  // Assets: answer from the cache and refresh it in the background.
+  event.respondWith(caches.open(SHELL_CACHE).then(cache => cache.match(request).then(cached => {
+    const network = fetch(request).then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+    if (!cached) return network;
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  })));
+});
+
+const openOutbox = () => new Promise((resolve, reject) => {
+  const open = indexedDB.open(OUTBOX_DB, 1);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(OUTBOX_STORE)) open.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => reject(open.error);
+});
+
+const withStore = (mode, run) => openOutbox().then(db => new Promise((resolve, reject) => {
+  const tx = db.transaction(OUTBOX_STORE, mode);
+  const request = run(tx.objectStore(OUTBOX_STORE));
+  tx.oncomplete = () => { db.close(); resolve(request.result); };
+  tx.onerror = tx.onabort = () => { db.close(); reject(tx.error); };
+}));
+
+const send = async (outboxRequest) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(outboxRequest.url, {
+      method: outboxRequest.method,
+      headers: outboxRequest.headers,
+      body: outboxRequest.body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      // The REST server explains its refusals in the body.
+      const data = await response.json().catch(() => null);
+      return { status: response.status, message: (data && data.message) || 'Server status: ' + response.status };
+    }
+    return { status: response.status, data: await response.json() };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Sends every waiting entry once. A refusal by the backend is kept with its
+// message so the page can show it; network trouble and busy answers leave the
+// entry waiting and fail the sync, so the browser schedules another one.
+const sendOutbox = async () => {
+  const entries = await withStore('readonly', store => store.getAll());
+  let retryLater = false;
+  for (const entry of entries) {
+    if (entry.failedAt) continue;
+    const attempted = { ...entry, attempts: entry.attempts + 1 };
+    try {
+      const { status, data, message: refusal } = await send(entry.request);
+      // Apps Script answers { result }, the REST server { ok }.
+      if (data && (data.result === 'success' || data.ok === true)) {
+        await withStore('readwrite', store => store.delete(entry.id));
+        continue;
+      }
+      const message = refusal || (data && data.message) || 'Rejected by backend';
+      const permanent = PERMANENT_STATUSES.includes(status) || PERMANENT_ERRORS.some(pattern => pattern.test(message));
+      if (!permanent) throw new Error(message);
+      await withStore('readwrite', store => store.put({ ...attempted, lastError: message, failedAt: Date.now() }));
+    } catch (err) {
+      retryLater = true;
+      await withStore('readwrite', store => store.put({ ...attempted, lastError: String((err && err.message) || err) }));
+    }
+  }
+  if (retryLater) throw new Error('Some check-ins are still waiting to be sent');
+};
+
+const notifyClients = () => self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  .then(clients => clients.forEach(client => client.postMessage({ type: 'outbox-changed' })));
+
+// One flush at a time: a sync event and a page message can arrive together.
+let flushing = null;
+const flushOutbox = () => {
+  if (!flushing) {
+    flushing = sendOutbox().finally(() => {
+      flushing = null;
+      return notifyClients();
+    });
+  }
+  return flushing;
+};
+
+self.addEventListener('sync', event => {
+  if (event.tag === OUTBOX_SYNC_TAG) event.waitUntil(flushOutbox());
+});
+
+// Browsers without Background Sync ask for a flush while the page is open.
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'flush-outbox') event.waitUntil(flushOutbox().catch(() => undefined));
+});
@@ -0,0 +1,168 @@
+// Signed, rotating QR tokens.
+//
+// Format: `<sessionId>.<issuedAt>.<lateAt>[.<flags>[.<geofence>]].<signature>`
+// (numbers in base36, lateAt 0 when the session has no grace period, flags
+// omitted when 0 and there is no geofence, the geofence as in geofence.ts)
+// where the signature is a truncated HMAC-SHA256 over everything before it,
+// keyed with a per-session secret. The per-session secret is itself
+// HMAC(signingKey, sessionId), so the Apps Script backend can re-derive it from
+// the single TOKEN_SECRET property.
+
+import type { Geofence } from './types';
+import { encodeGeofence, parseGeofence } from './geofence';
+import { TOKEN_CLOCK_SKEW_MS, TOKEN_TTL_MS } from './tokenTiming';
+
+export { TOKEN_CLOCK_SKEW_MS, TOKEN_MAX_AGE_MS, TOKEN_TTL_MS } from './tokenTiming';
+
+// Set when the student must also type the verification code shown next to the QR.
+export const TOKEN_FLAG_CODE = 1;
+
+// The code is read aloud or copied from the screen, so it changes slowly and
+// avoids characters that are easy to confuse (0/O, 1/I/L).
+export const CODE_WINDOW_MS = 30000;
+export const CODE_LENGTH = 4;
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+const SIGNATURE_BYTES = 16;
+const REDEEMED_TOKENS_KEY = 'attendance-redeemed-tokens-v1';
+
+export interface ParsedToken {
+  sessionId: string;
+  issuedAt: number;
+  // Scans issued after this moment are late. 0 means lateness is not tracked.
+  lateAt: number;
+  flags: number;
+  // Where scans must come from; the backends enforce it.
+  geofence?: Geofence;
+  signature: string;
+}
+
+export type TokenCheck =
+  | { valid: true; token: ParsedToken }
+  | { valid: false; reason: string };
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const hmac = async (key: string, message: string): Promise<Uint8Array> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return new Uint8Array(sig);
+};
+
+export const generateSigningKey = (): string => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const generateSessionId = (): string => toHex(crypto.getRandomValues(new Uint8Array(6)));
+
+export const deriveSessionSecret = async (signingKey: string, sessionId: string): Promise<string> =>
+  toHex(await hmac(signingKey, sessionId));
+
+const tokenPayload = (t: Omit<ParsedToken, 'signature'>) => {
+  const tail = t.geofence ? `.${t.flags.toString(36)}.${encodeGeofence(t.geofence)}` : t.flags ? `.${t.flags.toString(36)}` : '';
+  return `${t.sessionId}.${t.issuedAt.toString(36)}.${t.lateAt.toString(36)}${tail}`;
+};
+
+const sign = async (signingKey: string, sessionId: string, payload: string): Promise<string> => {
+  const sessionSecret = await deriveSessionSecret(signingKey, sessionId);
+  return toBase64Url((await hmac(sessionSecret, payload)).slice(0, SIGNATURE_BYTES));
+};
+
+export const createToken = async (signingKey: string, sessionId: string, lateAt: number = 0, issuedAt: number = Date.now(), flags: number = 0, geofence?: Geofence): Promise<string> => {
+  const payload = tokenPayload({ sessionId, issuedAt, lateAt, flags, geofence });
+  return `${payload}.${await sign(signingKey, sessionId, payload)}`;
+};
+
+export const parseToken = (token: string): ParsedToken | null => {
+  const parts = token.split('.');
+  if (parts.length < 4 || parts.length > 6) return null;
+  const [sessionId, issuedRaw, lateRaw] = parts;
+  const flagsRaw = parts.length >= 5 ? parts[3] : '0';
+  const geofenceRaw = parts.length === 6 ? parts[4] : '';
+  const signature = parts[parts.length - 1];
+  if (!/^[a-z0-9]+$/i.test(sessionId) || ![issuedRaw, lateRaw, flagsRaw].every(p => /^[a-z0-9]+$/.test(p)) || !/^[A-Za-z0-9_-]+$/.test(signature)) return null;
+  const issuedAt = parseInt(issuedRaw, 36);
+  const lateAt = parseInt(lateRaw, 36);
+  const flags = parseInt(flagsRaw, 36);
+  if (isNaN(issuedAt) || isNaN(lateAt) || isNaN(flags)) return null;
+  const geofence = geofenceRaw ? parseGeofence(geofenceRaw) : undefined;
+  // Anything but the exact text encodeGeofence writes would not match its signature.
+  if (geofenceRaw && (!geofence || encodeGeofence(geofence) !== geofenceRaw)) return null;
+  return { sessionId, issuedAt, lateAt, flags, ...(geofence ? { geofence } : {}), signature };
+};
+
+export const tokenRequiresCode = (token: ParsedToken) => (token.flags & TOKEN_FLAG_CODE) !== 0;
+
+/**
+ * Checks everything a student's device can check without the signing key:
+ * structure, freshness and whether this device already redeemed the token.
+ * The signature itself is verified by the backend (see `verifyTokenSignature`
+ * for devices that do hold the key).
+ */
+export const checkToken = (token: string, now: number = Date.now()): TokenCheck => {
+  const parsed = parseToken(token);
+  if (!parsed) return { valid: false, reason: 'This QR code is not valid. Please scan the code on the teacher\'s screen.' };
+  const age = now - parsed.issuedAt;
+  if (age < -TOKEN_CLOCK_SKEW_MS) return { valid: false, reason: 'This QR code is not valid. Please check your phone\'s clock and scan again.' };
+  if (age > TOKEN_TTL_MS) return { valid: false, reason: 'This QR code has expired. Please scan the new code on the teacher\'s screen.' };
+  if (hasRedeemedToken(token)) return { valid: false, reason: 'This QR code was already used on this device. Please scan the new code on the teacher\'s screen.' };
+  return { valid: true, token: parsed };
+};
+
+export const verifyTokenSignature = async (signingKey: string, token: string): Promise<boolean> => {
+  const parsed = parseToken(token);
+  if (!parsed) return false;
+  return (await sign(signingKey, parsed.sessionId, tokenPayload(parsed))) === parsed.signature;
+};
+
+// Writes from the teacher's device (kiosk and manual entries, bulk changes,
+// deletions) are signed with a key derived from the signing key under this
+// label. Nothing derived from it is ever shown in a QR code, so a student who
+// holds a token cannot sign one. The '-' keeps it apart from session IDs.
+const TEACHER_WRITE_CONTEXT = 'teacher-writes';
+// Batch bookkeeping added after signing.
+const UNSIGNED_FIELDS = ['taskId', 'teacherSig'];
+
+/** Every other field of the record, sorted, form-encoded. The backends rebuild the same string. */
+export const teacherWritePayload = (record: Record<string, string>): string => Object.keys(record)
+  .filter(key => !UNSIGNED_FIELDS.includes(key))
+  .sort()
+  .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(record[key])}`)
+  .join('&');
+
+export const signTeacherWrite = async (signingKey: string, record: Record<string, string>): Promise<string> => {
+  const teacherSecret = toHex(await hmac(signingKey, TEACHER_WRITE_CONTEXT));
+  return toBase64Url((await hmac(teacherSecret, teacherWritePayload(record))).slice(0, SIGNATURE_BYTES));
+};
+
+/** The code shown next to the QR during the time window containing `at`. */
+export const createVerificationCode = async (signingKey: string, sessionId: string, at: number = Date.now()): Promise<string> => {
+  const sessionSecret = await deriveSessionSecret(signingKey, sessionId);
+  const bytes = await hmac(sessionSecret, `code.${sessionId}.${Math.floor(at / CODE_WINDOW_MS).toString(36)}`);
+  return Array.from(bytes.slice(0, CODE_LENGTH), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+};
+
+export const normalizeVerificationCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const loadRedeemed = (): Record<string, number> => {
+  try {
+    const saved = localStorage.getItem(REDEEMED_TOKENS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const hasRedeemedToken = (token: string): boolean => token in loadRedeemed();
+
+export const rememberRedeemedToken = (token: string) => {
+  const now = Date.now();
+  const redeemed = loadRedeemed();
+  // Expired tokens are rejected on age anyway, so only keep the recent ones.
+  Object.keys(redeemed).forEach(t => { if (now - redeemed[t] > TOKEN_TTL_MS + TOKEN_CLOCK_SKEW_MS) delete redeemed[t]; });
+  redeemed[token] = now;
+  localStorage.setItem(REDEEMED_TOKENS_KEY, JSON.stringify(redeemed));
+};
@@ -0,0 +1,38 @@
+// Merging the backend's copy of a record into this device's. Last writer wins:
+// the copy whose status was set later is kept, and on a tie the backend's.
+// The backends apply the same rule to the writes they receive, so every
+// device settles on the same status. When this device and another one both
+// changed the record since it was last merged, the losing change stays on the
+// record as a conflict for the teacher to review.
+
+import type { Student } from './types';
+
+export const updatedAtOf = (record: Student): number => record.updatedAt ?? record.timestamp;
+
+export const withoutConflict = (record: Student): Student => {
+  const { conflict, ...rest } = record;
+  return rest;
+};
+
+/** The record after its status was set on this device at `at`. */
+export const withEdit = (record: Student, at: number): Student => ({ ...withoutConflict(record), updatedAt: at });
+
+/**
+ * `remote` is the backend's record in this app's shape, with `updatedAt` and
+ * `baseUpdatedAt` both set to the backend's value.
+ */
+export const mergeRecord = (local: Student | undefined, remote: Student): Student => {
+  // Backends that predate versions send no updatedAt; their copy wins, as it always did.
+  if (!local || remote.updatedAt === undefined) return remote;
+
+  const localWins = updatedAtOf(local) > remote.updatedAt;
+  const merged = localWins ? { ...remote, status: local.status, updatedAt: local.updatedAt } : remote;
+
+  const base = local.baseUpdatedAt ?? 0;
+  const bothChanged = local.updatedAt !== undefined && local.updatedAt > base && remote.updatedAt > base;
+  if (bothChanged && local.status !== remote.status && local.updatedAt !== remote.updatedAt) {
+    const lost = localWins ? remote : local;
+    return { ...merged, conflict: { status: lost.status, updatedAt: updatedAtOf(lost), source: localWins ? 'remote' : 'local' } };
+  }
+  return local.conflict ? { ...merged, conflict: local.conflict } : merged;
+};
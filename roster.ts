@@ -0,0 +1,126 @@
+import * as XLSX from 'xlsx';
+import type { Roster, RosterStudent, Student } from './types';
+
+export interface ColumnMapping {
+  idColumn: number;
+  nameColumn: number;
+  hasHeader: boolean;
+}
+
+export interface RosterImportResult {
+  students: RosterStudent[];
+  skipped: number;
+  duplicates: number;
+}
+
+const ID_HEADERS = ['student id', 'studentid', 'id', 'matric', 'matric no', 'student no', 'student number'];
+const NAME_HEADERS = ['name', 'student name', 'full name', 'nama'];
+
+export const STUDENT_ID_PATTERN = /^[A-Z]{3}\d{8}$/;
+
+// Every student has a university mailbox named after their ID. Upper case,
+// like the emails the backends store.
+export const studentEmail = (studentId: string) => `${studentId.toUpperCase()}@STUDENT.UTS.EDU.MY`;
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.replace(/^\ufeff/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/** Reads the first worksheet of a CSV, XLS or XLSX file into rows of strings. */
+export const readRosterFile = async (file: File): Promise<string[][]> => {
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, blankrows: false });
+  return rows.map(r => Array.from(r, cell => (cell == null ? '' : String(cell))));
+};
+
+/** Guesses which columns hold the ID and name, preferring header labels and falling back to the data. */
+export const guessColumnMapping = (rows: string[][]): ColumnMapping => {
+  const header = (rows[0] || []).map(h => h.trim().toLowerCase());
+  let idColumn = header.findIndex(h => ID_HEADERS.includes(h));
+  let nameColumn = header.findIndex(h => NAME_HEADERS.includes(h));
+  const hasHeader = idColumn !== -1 || nameColumn !== -1;
+
+  const sample = rows.slice(hasHeader ? 1 : 0, 20);
+  if (idColumn === -1) {
+    const width = Math.max(0, ...sample.map(r => r.length));
+    for (let c = 0; c < width && idColumn === -1; c++) {
+      if (sample.some(r => STUDENT_ID_PATTERN.test((r[c] || '').trim().toUpperCase()))) idColumn = c;
+    }
+  }
+  if (idColumn === -1) idColumn = 0;
+  if (nameColumn === -1 || nameColumn === idColumn) nameColumn = idColumn === 0 ? 1 : 0;
+
+  return { idColumn, nameColumn, hasHeader };
+};
+
+export const buildRosterStudents = (rows: string[][], mapping: ColumnMapping): RosterImportResult => {
+  const seen = new Set<string>();
+  const students: RosterStudent[] = [];
+  let skipped = 0;
+  let duplicates = 0;
+
+  rows.slice(mapping.hasHeader ? 1 : 0).forEach(row => {
+    const id = (row[mapping.idColumn] || '').trim().toUpperCase();
+    const name = (row[mapping.nameColumn] || '').trim().replace(/\s+/g, ' ').toUpperCase();
+    if (!id || !name) { skipped++; return; }
+    if (seen.has(id)) { duplicates++; return; }
+    seen.add(id);
+    students.push({ id, name });
+  });
+
+  return { students, skipped, duplicates };
+};
+
+/** Merges imported students into an existing list; imported names win for IDs that already exist. */
+export const mergeRosterStudents = (existing: RosterStudent[], incoming: RosterStudent[]): RosterStudent[] => {
+  const merged = new Map<string, RosterStudent>();
+  existing.forEach(s => merged.set(s.id, s));
+  incoming.forEach(s => merged.set(s.id, s));
+  return Array.from(merged.values()).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+};
+
+/**
+ * The roster for the session's course wins, so switching sessions switches the
+ * class list. Without a course match the teacher's explicit choice is used.
+ */
+export const pickActiveRoster = (rosters: Roster[], selectedRosterId: string, courseCode?: string): Roster | null => {
+  const selected = rosters.find(r => r.id === selectedRosterId) || null;
+  if (!courseCode) return selected;
+  if (selected && selected.courseCode === courseCode) return selected;
+  return rosters.find(r => r.courseCode === courseCode) || selected;
+};
+
+/** Roster students with no record in the given session's attendance. */
+export const findAbsentees = (roster: RosterStudent[], records: Student[]): RosterStudent[] => {
+  const recorded = new Set(records.map(s => s.studentId.toUpperCase()));
+  return roster.filter(s => !recorded.has(s.id.toUpperCase()));
+};
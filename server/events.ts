@@ -0,0 +1,22 @@
+import { EventEmitter } from 'node:events';
+import type { StoredRecord } from './store';
+
+export type SessionEvent =
+  | { type: 'upsert'; record: StoredRecord }
+  | { type: 'remove'; sessionId: string; studentId: string };
+
+const emitter = new EventEmitter();
+// One listener per open teacher dashboard; there is no sensible cap.
+emitter.setMaxListeners(0);
+
+const sessionOf = (event: SessionEvent) => event.type === 'upsert' ? event.record.sessionId : event.sessionId;
+
+export const publish = (event: SessionEvent) => {
+  emitter.emit(`session:${sessionOf(event)}`, event);
+};
+
+/** Calls `listener` for every change to the session until the returned function is called. */
+export const subscribe = (sessionId: string, listener: (event: SessionEvent) => void): () => void => {
+  emitter.on(`session:${sessionId}`, listener);
+  return () => { emitter.off(`session:${sessionId}`, listener); };
+};
@@ -0,0 +1,43 @@
+import type { Geofence, ScanLocation } from '../types';
+
+// Mirrors geofence.ts, which the server cannot import: it also reads the
+// browser's location.
+const MAX_ACCURACY_ALLOWANCE_METERS = 50;
+
+export type LocationCheck =
+  | { ok: true; location?: ScanLocation; flag: string }
+  | { ok: false; reason: string };
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+const distanceMeters = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number => {
+  const R = 6371000;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+};
+
+/** `<lat>_<lng>_<radius>_<r|f>` from a QR token, as written by encodeGeofence in geofence.ts. */
+export const parseGeofence = (value: string): Geofence | undefined => {
+  const match = /^(-?\d+)_(-?\d+)_(\d+)_([rf])$/.exec(value);
+  if (!match || !(Number(match[3]) > 0)) return undefined;
+  return { latitude: Number(match[1]) / 1e6, longitude: Number(match[2]) / 1e6, radiusMeters: Number(match[3]), policy: match[4] === 'r' ? 'reject' : 'flag' };
+};
+
+/**
+ * Judges a scan against the geofence signed into its token, measuring the
+ * distance here instead of trusting the phone's. Under 'reject' a scan from
+ * outside, or without a location, is refused; under 'flag' it is kept with
+ * the reason, the same wording locationFlag in geofence.ts uses.
+ */
+export const checkScanLocation = (geofence: Geofence, location: ScanLocation | undefined): LocationCheck => {
+  if (!location) {
+    return geofence.policy === 'reject' ? { ok: false, reason: 'Scan location is required for this class' } : { ok: true, flag: 'No location' };
+  }
+  const measured = { ...location, distance: Math.round(distanceMeters(geofence, location)) };
+  if (measured.distance <= geofence.radiusMeters + Math.min(measured.accuracy, MAX_ACCURACY_ALLOWANCE_METERS)) return { ok: true, location: measured, flag: '' };
+  return geofence.policy === 'reject'
+    ? { ok: false, reason: `Scan location is outside the classroom (${measured.distance} m)` }
+    : { ok: true, location: measured, flag: `Outside (${measured.distance} m)` };
+};
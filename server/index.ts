@@ -0,0 +1,369 @@
+// Self-hosted attendance server. Speaks the Apps Script protocol at `/` (and
+// `/exec`), so the app works by pointing the Script URL here, plus the JSON API
+// used by the "REST / JSON Server" backend (see backends/rest.ts).
+//
+//   PORT          listen port (default 8787)
+//   DB_PATH       SQLite file (default ./attendance.db)
+//   TOKEN_SECRET  the QR signing key from the app; every write is rejected until it is set
+//   TEACHER_TOKEN bearer token the dashboard sends on every route but phones' check-ins; unset leaves them open
+//   CORS_ORIGIN   allowed origin (default *)
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { isAttendanceStatus } from '../attendanceStatus';
+import type { Roster, Session } from '../types';
+import { publish, subscribe } from './events';
+import { writeRecords } from './records';
+import { AttendanceStore } from './store';
+import type { StoredRecord } from './store';
+import { verifyToken } from './token';
+
+const VERSION = '1.0.0';
+const MAX_BODY_BYTES = 1024 * 1024;
+// Keeps idle event streams from being cut by proxies.
+const HEARTBEAT_MS = 25000;
+// How long a dashboard has to open its event stream with a ticket.
+const STREAM_TICKET_TTL_MS = 30000;
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN_SECRET = process.env.TOKEN_SECRET || '';
+const TEACHER_TOKEN = process.env.TEACHER_TOKEN || '';
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+
+const store = new AttendanceStore(process.env.DB_PATH || 'attendance.db');
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) { reject(new HttpError(413, 'Request body too large')); req.destroy(); return; }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const isTeacher = (req: IncomingMessage): boolean => {
+  if (!TEACHER_TOKEN) return true;
+  const header = req.headers.authorization || '';
+  const given = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  return timingSafeEqual(digest(given), digest(TEACHER_TOKEN));
+};
+
+const requireTeacher = (req: IncomingMessage) => {
+  if (!isTeacher(req)) throw new HttpError(401, 'Teacher token required');
+};
+
+// Event streams cannot send headers, and a token in the URL ends up in logs
+// and history, so the dashboard trades its token for a short-lived,
+// single-use ticket and opens the stream with ?ticket= instead.
+const streamTickets = new Map<string, { sessionId: string, expiresAt: number }>();
+
+const issueStreamTicket = (sessionId: string): string => {
+  const now = Date.now();
+  streamTickets.forEach((t, key) => { if (t.expiresAt < now) streamTickets.delete(key); });
+  const ticket = randomBytes(18).toString('base64url');
+  streamTickets.set(ticket, { sessionId, expiresAt: now + STREAM_TICKET_TTL_MS });
+  return ticket;
+};
+
+const redeemStreamTicket = (ticket: string | null, sessionId: string): boolean => {
+  const issued = ticket ? streamTickets.get(ticket) : undefined;
+  if (!ticket || !issued) return false;
+  streamTickets.delete(ticket);
+  return issued.sessionId === sessionId && issued.expiresAt >= Date.now();
+};
+
+/** JSON or form-encoded, like doPost which falls back to e.parameter. */
+const readParams = async (req: IncomingMessage): Promise<Record<string, any>> => {
+  const body = await readBody(req);
+  if (!body) return {};
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return JSON.parse(body);
+    } catch (e) {
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(body));
+};
+
+const toRemote = (r: StoredRecord) => ({
+  studentId: r.studentId,
+  name: r.name,
+  email: r.email,
+  status: r.status,
+  timestamp: r.timestamp,
+  updatedAt: r.updatedAt,
+  deviceId: r.deviceId,
+  deviceFingerprint: r.deviceFingerprint,
+  ...(r.location ? { ...r.location } : {}),
+  ...(r.locationFlag ? { locationFlag: r.locationFlag } : {}),
+});
+
+const health = () => ({
+  ok: true,
+  version: VERSION,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  // SQLite writes never wait for a lock here.
+  lockWaitMs: 0,
+  verifiesTokens: !!TOKEN_SECRET,
+  selfHosted: true,
+});
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// --- Apps Script protocol ---
+
+const handleScriptPost = (params: Record<string, any>, fromTeacher: boolean) => {
+  if (params.action === 'batch') {
+    let records = params.records || [];
+    try {
+      if (typeof records === 'string') records = JSON.parse(records);
+    } catch (e) {
+      throw new HttpError(400, 'records must be JSON');
+    }
+    if (!Array.isArray(records)) throw new HttpError(400, 'records must be an array');
+    const results = writeRecords(store, TOKEN_SECRET, records, fromTeacher)
+      .map(r => ({ id: r.id, result: r.ok ? 'success' : 'error', ...(r.message ? { message: r.message } : {}) }));
+    return { result: 'success', results };
+  }
+  const [single] = writeRecords(store, TOKEN_SECRET, [params], fromTeacher);
+  return single.ok ? { result: 'success' } : { result: 'error', message: single.message };
+};
+
+// Apps that understand tombstones ask for them; older ones get the bare array.
+const sessionSnapshot = (sessionId: string) => ({
+  records: store.sessionRecords(sessionId).map(toRemote),
+  tombstones: store.sessionTombstones(sessionId),
+});
+
+// Like the JSON API, only what phones use is open: reads carry device IDs and locations.
+const handleScriptGet = (req: IncomingMessage, query: URLSearchParams) => {
+  switch (query.get('action')) {
+    case 'verify': return verifyToken(query.get('token'), TOKEN_SECRET, query.get('code') ?? undefined);
+    case 'roster': return store.findRoster(query.get('courseCode') || undefined)?.students || [];
+    case 'ping': return health();
+    case 'history':
+      requireTeacher(req);
+      return store.history();
+    default: {
+      requireTeacher(req);
+      // The script reads today's column; a session ID narrows it to one class.
+      const sessionId = query.get('sessionId');
+      if (sessionId && query.get('tombstones')) return sessionSnapshot(sessionId);
+      return (sessionId ? store.sessionRecords(sessionId) : store.recordsSince(startOfToday())).map(toRemote);
+    }
+  }
+};
+
+// --- JSON API ---
+
+/** Server-Sent Events: a snapshot on connect, then one event per changed record. */
+const streamSession = (req: IncomingMessage, res: ServerResponse, sessionId: string) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+  });
+  const write = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  res.write('retry: 3000\n\n');
+  write('snapshot', sessionSnapshot(sessionId));
+  const unsubscribe = subscribe(sessionId, event => {
+    if (event.type === 'upsert') write('upsert', toRemote(event.record));
+    else write('remove', { studentId: event.studentId });
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => { clearInterval(heartbeat); unsubscribe(); });
+};
+
+const parseSession = (id: string, body: any): Session => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, 'Session body required');
+  const startTime = Number(body.startTime);
+  if (!Number.isFinite(startTime)) throw new HttpError(400, 'startTime is required');
+  return {
+    id,
+    courseCode: String(body.courseCode || '').toUpperCase(),
+    section: String(body.section || '').toUpperCase(),
+    week: Number(body.week) || 0,
+    startTime,
+    ...(Number.isFinite(Number(body.endTime)) && body.endTime != null ? { endTime: Number(body.endTime) } : {}),
+    status: body.status === 'closed' ? 'closed' : 'open',
+    ...(body.lateAfterMinutes != null ? { lateAfterMinutes: Math.max(0, Math.floor(Number(body.lateAfterMinutes) || 0)) } : {}),
+  };
+};
+
+const parseRoster = (id: string, body: any): Roster => {
+  if (!body || typeof body !== 'object' || !Array.isArray(body.students)) throw new HttpError(400, 'Roster body with students[] required');
+  return {
+    id,
+    name: String(body.name || id),
+    courseCode: String(body.courseCode || '').toUpperCase(),
+    students: body.students
+      .filter((s: any) => s && s.id && s.name)
+      .map((s: any) => ({ id: String(s.id).toUpperCase().trim(), name: String(s.name).toUpperCase().trim() })),
+    updatedAt: Date.now(),
+  };
+};
+
+const handleApi = async (req: IncomingMessage, segments: string[], query: URLSearchParams): Promise<[number, unknown]> => {
+  const method = req.method || 'GET';
+  const [resource, id, sub] = segments;
+
+  // What students' phones use; their writes are checked by their QR token.
+  if (resource === 'health' && method === 'GET') return [200, health()];
+
+  if (resource === 'records' && method === 'POST' && !id) {
+    const [result] = writeRecords(store, TOKEN_SECRET, [await readParams(req)], isTeacher(req));
+    return [200, { ok: result.ok, ...(result.message ? { message: result.message } : {}) }];
+  }
+
+  if (resource === 'tokens' && id === 'verify' && method === 'GET') return [200, verifyToken(query.get('token'), TOKEN_SECRET, query.get('code') ?? undefined)];
+
+  if (resource === 'roster' && !id && method === 'GET') {
+    return [200, store.findRoster(query.get('courseCode') || undefined)?.students || []];
+  }
+
+  requireTeacher(req);
+
+  if (resource === 'records' && method === 'POST' && id === 'batch') {
+    const body = await readParams(req);
+    if (!Array.isArray(body.records)) throw new HttpError(400, 'records must be an array');
+    return [200, { results: writeRecords(store, TOKEN_SECRET, body.records, true) }];
+  }
+
+  if (resource === 'history' && !id && method === 'GET') return [200, store.history()];
+
+  if (resource === 'sessions') {
+    if (!id && method === 'GET') return [200, store.listSessions()];
+    if (id && !sub && method === 'GET') {
+      const session = store.getSession(id);
+      if (!session) throw new HttpError(404, 'Session not found');
+      return [200, session];
+    }
+    if (id && !sub && method === 'PUT') {
+      const session = parseSession(id, await readParams(req));
+      store.saveSession(session);
+      return [200, session];
+    }
+    if (id && sub === 'records' && !segments[3] && method === 'GET') {
+      return [200, query.get('tombstones') ? sessionSnapshot(id) : store.sessionRecords(id).map(toRemote)];
+    }
+    if (id && sub === 'audit' && method === 'GET') return [200, store.sessionAudit(id)];
+    if (id && sub === 'events' && segments[3] === 'ticket' && method === 'POST') {
+      return [200, { ticket: issueStreamTicket(id), expiresIn: STREAM_TICKET_TTL_MS }];
+    }
+    if (id && sub === 'records' && segments[3] && method === 'DELETE') {
+      const studentId = segments[3].toUpperCase();
+      const oldStatus = store.recordStatus(id, studentId);
+      const removed = store.deleteRecord(id, studentId);
+      if (removed) {
+        store.appendAudit({ at: Date.now(), sessionId: id, action: 'remove', studentId, oldStatus: oldStatus || '', newStatus: '', source: 'api', actor: '', reason: '' });
+        publish({ type: 'remove', sessionId: id, studentId });
+      }
+      return [200, { ok: removed }];
+    }
+    if (id && sub === 'records' && segments[3] && method === 'PATCH') {
+      const body = await readParams(req);
+      if (!isAttendanceStatus(body.status)) throw new HttpError(400, `Invalid status: ${body.status}`);
+      const existing = store.sessionRecords(id).find(r => r.studentId === segments[3].toUpperCase());
+      if (!existing) throw new HttpError(404, 'Record not found');
+      publish({ type: 'upsert', record: store.upsertRecord({ ...existing, status: body.status, updatedAt: Date.now() }) });
+      store.appendAudit({ at: Date.now(), sessionId: id, action: 'status', studentId: existing.studentId, oldStatus: existing.status, newStatus: body.status, source: 'api', actor: '', reason: String(body.reason || '') });
+      return [200, { ok: true }];
+    }
+  }
+
+  if (resource === 'rosters') {
+    if (!id && method === 'GET') return [200, store.listRosters()];
+    if (id && method === 'GET') {
+      const roster = store.getRoster(id);
+      if (!roster) throw new HttpError(404, 'Roster not found');
+      return [200, roster];
+    }
+    if (id && method === 'PUT') {
+      const roster = parseRoster(id, await readParams(req));
+      store.saveRoster(roster);
+      return [200, roster];
+    }
+    if (id && method === 'DELETE') return [200, { ok: store.deleteRoster(id) }];
+  }
+
+  throw new HttpError(404, `No route for ${method} /${segments.join('/')}`);
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const isScriptPath = segments.length === 0 || (segments.length === 1 && segments[0] === 'exec');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': CORS_ORIGIN,
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    });
+    res.end();
+    return;
+  }
+
+  try {
+    if (isScriptPath) {
+      if (req.method === 'POST') send(res, 200, handleScriptPost(await readParams(req), isTeacher(req)));
+      else send(res, 200, handleScriptGet(req, url.searchParams));
+      return;
+    }
+    if (req.method === 'GET' && segments.length === 3 && segments[0] === 'sessions' && segments[2] === 'events') {
+      if (!isTeacher(req) && !redeemStreamTicket(url.searchParams.get('ticket'), segments[1])) throw new HttpError(401, 'Stream ticket required');
+      streamSession(req, res, segments[1]);
+      return;
+    }
+    const [status, body] = await handleApi(req, segments, url.searchParams);
+    send(res, status, body);
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error('Attendance Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    // Apps Script clients only understand { result } bodies.
+    send(res, status, isScriptPath ? { result: 'error', message } : { ok: false, message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Attendance server v${VERSION} listening on :${PORT}${TOKEN_SECRET ? '' : ' (TOKEN_SECRET not set: every write is rejected)'}${TEACHER_TOKEN ? '' : ' (TEACHER_TOKEN not set: the dashboard routes are open)'}`);
+});
+
+const shutdown = () => {
+  server.close(() => { store.close(); process.exit(0); });
+  // Open event streams would otherwise hold the server up forever.
+  server.closeAllConnections();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
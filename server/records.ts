@@ -0,0 +1,156 @@
+import { isAttendanceStatus } from '../attendanceStatus';
+import type { AttendanceStatus, ScanLocation } from '../types';
+import { publish } from './events';
+import { checkScanLocation } from './geofence';
+import type { AttendanceStore, AuditRow, StoredRecord } from './store';
+import { TOKEN_CLOCK_SKEW_MS, TOKEN_MAX_AGE_MS } from '../tokenTiming';
+import { verifyDeviceSignature, verifyTeacherSignature, verifyToken } from './token';
+
+// What a QR token alone may record.
+const SCAN_STATUSES: AttendanceStatus[] = ['P', 'L'];
+
+const parseLocation = (data: Record<string, unknown>): ScanLocation | undefined => {
+  const latitude = Number(data.latitude);
+  const longitude = Number(data.longitude);
+  if (data.latitude == null || data.longitude == null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+  return { latitude, longitude, accuracy: Number(data.accuracy) || 0, distance: Number(data.distance) || 0 };
+};
+
+// What the app sends along to describe the change (see audit.ts). Records
+// from older apps carry none of it and are logged with what is known.
+const auditRow = (data: Record<string, unknown>, fields: Pick<AuditRow, 'at' | 'sessionId' | 'studentId' | 'oldStatus' | 'newStatus'>): AuditRow => ({
+  ...fields,
+  action: String(data.auditAction || (fields.newStatus ? (fields.oldStatus ? 'status' : 'add') : 'remove')),
+  source: String(data.auditSource || ''),
+  actor: String(data.auditActor || ''),
+  reason: String(data.auditReason || ''),
+});
+
+export interface WriteResult {
+  id: string;
+  ok: boolean;
+  message?: string;
+}
+
+/**
+ * Validates and stores submitted records in one transaction, mirroring
+ * writeRecords in the Apps Script. Each record succeeds or fails on its own.
+ * Listeners hear about the stored ones once the transaction has committed.
+ * Teacher-signed records are only taken from requests that also carry the
+ * teacher token (`fromTeacher`).
+ */
+export const writeRecords = (store: AttendanceStore, tokenSecret: string, records: unknown[], fromTeacher: boolean): WriteResult[] => {
+  const now = Date.now();
+  const written: StoredRecord[] = [];
+  const removed: { sessionId: string, studentId: string }[] = [];
+  const results = store.transaction(() => records.map((raw, i): WriteResult => {
+    const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const id = String(data.taskId ?? i);
+    const studentId = String(data.studentId || '').toUpperCase().trim();
+    const claimed = String(data.status || 'P').toUpperCase();
+
+    if (!studentId && data.kind !== 'session') return { id, ok: false, message: 'Missing Student ID' };
+
+    // Phones can only check themselves in, as present or late, with their QR
+    // token. Anything else must be signed on the teacher's device.
+    const byTeacher = data.teacherSig !== undefined;
+    if (byTeacher) {
+      if (!fromTeacher) return { id, ok: false, message: 'Teacher token required' };
+      const check = verifyTeacherSignature(data, tokenSecret);
+      if (!check.valid) return { id, ok: false, message: check.reason };
+    } else if (data.kind === 'audit' || data.kind === 'delete' || data.kind === 'session') {
+      return { id, ok: false, message: 'Teacher signature required' };
+    }
+
+    // Closing a session makes its QR check-ins fail from then on.
+    if (data.kind === 'session') {
+      const sessionId = String(data.sessionId || '');
+      if (!sessionId) return { id, ok: false, message: 'Missing session ID' };
+      store.setSessionStatus(sessionId, data.sessionStatus === 'closed' ? 'closed' : 'open', Number(data.sessionStart) || now, now);
+      return { id, ok: true };
+    }
+
+    // Audit-only entries, from apps that could not sync deletions yet.
+    if (data.kind === 'audit') {
+      store.appendAudit(auditRow(data, {
+        at: now,
+        sessionId: String(data.sessionId || ''),
+        studentId,
+        oldStatus: String(data.oldStatus || ''),
+        newStatus: String(data.newStatus || ''),
+      }));
+      return { id, ok: true };
+    }
+
+    // Last writer wins: a change made before the stored one, or before the
+    // record was deleted, is dropped. Scans are timed here, because phone
+    // clocks cannot be trusted, and no device can claim a time still to come.
+    const updatedAt = byTeacher ? Math.min(Number(data.updatedAt) || now, now) : now;
+
+    if (data.kind === 'delete') {
+      const sessionId = String(data.sessionId || '');
+      const existing = store.findRecord(sessionId, studentId);
+      if (existing && existing.updatedAt > updatedAt) return { id, ok: true };
+      if (store.deleteRecord(sessionId, studentId, updatedAt)) removed.push({ sessionId, studentId });
+      store.appendAudit(auditRow(data, { at: now, sessionId, studentId, oldStatus: existing?.status || '', newStatus: '' }));
+      return { id, ok: true };
+    }
+
+    if (!isAttendanceStatus(claimed)) return { id, ok: false, message: `Invalid status: ${claimed}` };
+
+    let sessionId = String(data.sessionId || '');
+    let status: AttendanceStatus = claimed;
+    let location = parseLocation(data);
+    let locationFlag: string | undefined;
+    if (!byTeacher) {
+      if (!SCAN_STATUSES.includes(claimed)) return { id, ok: false, message: `Teacher signature required for status ${claimed}` };
+      const check = verifyToken(data.token, tokenSecret, String(data.code || ''), now);
+      if (!check.valid) return { id, ok: false, message: check.reason };
+      sessionId = sessionId || check.sessionId || '';
+      if (check.sessionId && sessionId !== check.sessionId) return { id, ok: false, message: 'QR token is for a different session' };
+      if (store.getSession(sessionId)?.status === 'closed') return { id, ok: false, message: 'Session is closed' };
+      // The late cut-off is signed into the token, so present or late is decided
+      // here from when the token was issued, whatever the phone claimed.
+      status = check.lateAt && check.issuedAt && check.issuedAt > check.lateAt ? 'L' : 'P';
+      const device = verifyDeviceSignature(data, studentId);
+      if (!device.valid) return { id, ok: false, message: device.reason };
+      if (check.geofence) {
+        const located = checkScanLocation(check.geofence, location);
+        if (!located.ok) return { id, ok: false, message: located.reason };
+        location = located.location;
+        locationFlag = located.flag;
+      }
+      // A whole class may scan the same QR, but each phone may only use it for
+      // one student, so a shared link cannot check in friends from that phone.
+      // The device ID was checked against the device's signature above.
+      if (check.signature && !store.redeemToken(check.signature, String(data.deviceId || ''), studentId, now, now - TOKEN_MAX_AGE_MS - TOKEN_CLOCK_SKEW_MS)) {
+        return { id, ok: false, message: 'QR token was already used on this device for another student' };
+      }
+    }
+
+    try {
+      const existing = store.findRecord(sessionId, studentId);
+      if ((existing && existing.updatedAt > updatedAt) || (store.deletedAt(sessionId, studentId) ?? 0) > updatedAt) return { id, ok: true };
+      written.push(store.upsertRecord({
+        sessionId,
+        studentId,
+        name: String(data.name || '').toUpperCase().trim(),
+        email: String(data.email || '').toUpperCase().trim(),
+        status,
+        timestamp: now,
+        updatedAt,
+        deviceId: String(data.deviceId || ''),
+        deviceFingerprint: String(data.deviceFingerprint || ''),
+        location,
+        locationFlag,
+      }));
+      store.appendAudit(auditRow(data, { at: now, sessionId, studentId, oldStatus: existing?.status || '', newStatus: status }));
+      return { id, ok: true };
+    } catch (e) {
+      return { id, ok: false, message: e instanceof Error ? e.message : String(e) };
+    }
+  }));
+  written.forEach(record => publish({ type: 'upsert', record }));
+  removed.forEach(({ sessionId, studentId }) => publish({ type: 'remove', sessionId, studentId }));
+  return results;
+};
@@ -0,0 +1,373 @@
+import Database from 'better-sqlite3';
+import type { AttendanceStatus, Roster, RosterStudent, ScanLocation, Session, SessionStatus } from '../types';
+
+export interface StoredRecord {
+  sessionId: string;
+  studentId: string;
+  name: string;
+  email: string;
+  status: AttendanceStatus;
+  timestamp: number;
+  // When the status was last set; 0 on records from before versions.
+  updatedAt: number;
+  deviceId?: string;
+  deviceFingerprint?: string;
+  location?: ScanLocation;
+  // Why a scan broke its token's geofence; '' clears it, unset keeps what was stored.
+  locationFlag?: string;
+}
+
+/** One row of the audit log; the same columns as the Apps Script's Audit sheet. */
+export interface AuditRow {
+  at: number;
+  sessionId: string;
+  action: string;
+  studentId: string;
+  oldStatus: string;
+  newStatus: string;
+  source: string;
+  actor: string;
+  reason: string;
+}
+
+/** A deleted record, kept so devices that still have a copy drop it. */
+export interface Tombstone {
+  studentId: string;
+  deletedAt: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    course_code TEXT NOT NULL DEFAULT '',
+    section TEXT NOT NULL DEFAULT '',
+    week INTEGER NOT NULL DEFAULT 0,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    status TEXT NOT NULL DEFAULT 'open',
+    late_after_minutes INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS records (
+    session_id TEXT NOT NULL,
+    student_id TEXT NOT NULL,
+    name TEXT NOT NULL DEFAULT '',
+    email TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    device_id TEXT NOT NULL DEFAULT '',
+    device_fingerprint TEXT NOT NULL DEFAULT '',
+    latitude REAL,
+    longitude REAL,
+    accuracy REAL,
+    distance REAL,
+    updated_at INTEGER NOT NULL DEFAULT 0,
+    location_flag TEXT,
+    PRIMARY KEY (session_id, student_id)
+  );
+  CREATE INDEX IF NOT EXISTS records_timestamp ON records (timestamp);
+  CREATE TABLE IF NOT EXISTS rosters (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    course_code TEXT NOT NULL DEFAULT '',
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS roster_students (
+    roster_id TEXT NOT NULL REFERENCES rosters (id) ON DELETE CASCADE,
+    student_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    PRIMARY KEY (roster_id, student_id)
+  );
+  CREATE TABLE IF NOT EXISTS audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    at INTEGER NOT NULL,
+    session_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    student_id TEXT NOT NULL,
+    old_status TEXT NOT NULL DEFAULT '',
+    new_status TEXT NOT NULL DEFAULT '',
+    source TEXT NOT NULL DEFAULT '',
+    actor TEXT NOT NULL DEFAULT '',
+    reason TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS audit_session ON audit (session_id, at);
+  CREATE TABLE IF NOT EXISTS tombstones (
+    session_id TEXT NOT NULL,
+    student_id TEXT NOT NULL,
+    deleted_at INTEGER NOT NULL,
+    PRIMARY KEY (session_id, student_id)
+  );
+  CREATE TABLE IF NOT EXISTS redeemed_tokens (
+    signature TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    student_id TEXT NOT NULL,
+    redeemed_at INTEGER NOT NULL,
+    PRIMARY KEY (signature, device_id)
+  );
+  CREATE INDEX IF NOT EXISTS redeemed_tokens_at ON redeemed_tokens (redeemed_at);
+`;
+
+const toSession = (row: any): Session => ({
+  id: row.id,
+  courseCode: row.course_code,
+  section: row.section,
+  week: row.week,
+  startTime: row.start_time,
+  ...(row.end_time != null ? { endTime: row.end_time } : {}),
+  status: row.status,
+  ...(row.late_after_minutes != null ? { lateAfterMinutes: row.late_after_minutes } : {}),
+});
+
+const toRecord = (row: any): StoredRecord => ({
+  sessionId: row.session_id,
+  studentId: row.student_id,
+  name: row.name,
+  email: row.email,
+  status: row.status,
+  timestamp: row.timestamp,
+  updatedAt: row.updated_at,
+  ...(row.device_id ? { deviceId: row.device_id } : {}),
+  ...(row.device_fingerprint ? { deviceFingerprint: row.device_fingerprint } : {}),
+  ...(row.latitude != null && row.longitude != null
+    ? { location: { latitude: row.latitude, longitude: row.longitude, accuracy: row.accuracy ?? 0, distance: row.distance ?? 0 } }
+    : {}),
+  ...(row.location_flag ? { locationFlag: row.location_flag } : {}),
+});
+
+// Columns added after the first release, for databases created before them.
+const ADDED_COLUMNS: [table: string, column: string, definition: string][] = [
+  ['records', 'device_id', "TEXT NOT NULL DEFAULT ''"],
+  ['records', 'device_fingerprint', "TEXT NOT NULL DEFAULT ''"],
+  ['records', 'latitude', 'REAL'],
+  ['records', 'longitude', 'REAL'],
+  ['records', 'accuracy', 'REAL'],
+  ['records', 'distance', 'REAL'],
+  ['records', 'updated_at', 'INTEGER NOT NULL DEFAULT 0'],
+  ['records', 'location_flag', 'TEXT'],
+];
+
+/**
+ * SQLite-backed storage. better-sqlite3 is synchronous, so requests are
+ * serialised by the event loop and there is no lock to wait for.
+ */
+export class AttendanceStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    ADDED_COLUMNS.forEach(([table, column, definition]) => {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(c => c.name === column)) this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    });
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /** Runs `fn` atomically. Nested calls become savepoints of the outer transaction. */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  /** Returns the record as stored, which keeps the first scan time and any known name or email. */
+  upsertRecord(record: StoredRecord): StoredRecord {
+    // Records for sessions the server has not been told about still need a home.
+    this.db.prepare(`INSERT OR IGNORE INTO sessions (id, start_time) VALUES (?, ?)`).run(record.sessionId, record.timestamp);
+    this.db.prepare(`DELETE FROM tombstones WHERE session_id = ? AND student_id = ?`).run(record.sessionId, record.studentId);
+    const row = this.db.prepare(`
+      INSERT INTO records (session_id, student_id, name, email, status, timestamp, device_id, device_fingerprint, latitude, longitude, accuracy, distance, updated_at, location_flag)
+      VALUES (@sessionId, @studentId, @name, @email, @status, @timestamp, @deviceId, @deviceFingerprint, @latitude, @longitude, @accuracy, @distance, @updatedAt, @locationFlag)
+      ON CONFLICT (session_id, student_id) DO UPDATE SET
+        name = CASE WHEN excluded.name <> '' THEN excluded.name ELSE records.name END,
+        email = CASE WHEN excluded.email <> '' THEN excluded.email ELSE records.email END,
+        status = excluded.status,
+        updated_at = excluded.updated_at,
+        device_id = CASE WHEN excluded.device_id <> '' THEN excluded.device_id ELSE records.device_id END,
+        device_fingerprint = CASE WHEN excluded.device_fingerprint <> '' THEN excluded.device_fingerprint ELSE records.device_fingerprint END,
+        latitude = COALESCE(excluded.latitude, records.latitude),
+        longitude = COALESCE(excluded.longitude, records.longitude),
+        accuracy = COALESCE(excluded.accuracy, records.accuracy),
+        distance = COALESCE(excluded.distance, records.distance),
+        location_flag = COALESCE(excluded.location_flag, records.location_flag)
+      RETURNING *
+    `).get({
+      sessionId: record.sessionId,
+      studentId: record.studentId,
+      name: record.name,
+      email: record.email,
+      status: record.status,
+      timestamp: record.timestamp,
+      updatedAt: record.updatedAt,
+      deviceId: record.deviceId || '',
+      deviceFingerprint: record.deviceFingerprint || '',
+      latitude: record.location?.latitude ?? null,
+      longitude: record.location?.longitude ?? null,
+      accuracy: record.location?.accuracy ?? null,
+      distance: record.location?.distance ?? null,
+      locationFlag: record.locationFlag ?? null,
+    });
+    return toRecord(row);
+  }
+
+  findRecord(sessionId: string, studentId: string): StoredRecord | null {
+    const row = this.db.prepare(`SELECT * FROM records WHERE session_id = ? AND student_id = ?`).get(sessionId, studentId);
+    return row ? toRecord(row) : null;
+  }
+
+  recordStatus(sessionId: string, studentId: string): AttendanceStatus | null {
+    const row: any = this.db.prepare(`SELECT status FROM records WHERE session_id = ? AND student_id = ?`).get(sessionId, studentId);
+    return row ? row.status : null;
+  }
+
+  /**
+   * Leaves a tombstone even when there was no record here: another device
+   * may still hold one it never synced.
+   */
+  deleteRecord(sessionId: string, studentId: string, deletedAt: number = Date.now()): boolean {
+    this.db.prepare(`
+      INSERT INTO tombstones (session_id, student_id, deleted_at) VALUES (?, ?, ?)
+      ON CONFLICT (session_id, student_id) DO UPDATE SET deleted_at = excluded.deleted_at
+    `).run(sessionId, studentId, deletedAt);
+    return this.db.prepare(`DELETE FROM records WHERE session_id = ? AND student_id = ?`).run(sessionId, studentId).changes > 0;
+  }
+
+  deletedAt(sessionId: string, studentId: string): number | null {
+    const row: any = this.db.prepare(`SELECT deleted_at FROM tombstones WHERE session_id = ? AND student_id = ?`).get(sessionId, studentId);
+    return row ? row.deleted_at : null;
+  }
+
+  /**
+   * Records that a device checked a student in with the token of this
+   * signature. False when the device already used it for another student;
+   * the same student again is a retry and passes. Entries older than
+   * `expiredBefore` are dropped, as their tokens are refused anyway.
+   */
+  redeemToken(signature: string, deviceId: string, studentId: string, at: number, expiredBefore: number): boolean {
+    // An empty ID would be shared by every phone that sends none.
+    if (!deviceId) return false;
+    this.db.prepare(`DELETE FROM redeemed_tokens WHERE redeemed_at < ?`).run(expiredBefore);
+    const row: any = this.db.prepare(`SELECT student_id FROM redeemed_tokens WHERE signature = ? AND device_id = ?`).get(signature, deviceId);
+    if (row) return row.student_id === studentId;
+    this.db.prepare(`INSERT INTO redeemed_tokens (signature, device_id, student_id, redeemed_at) VALUES (?, ?, ?, ?)`).run(signature, deviceId, studentId, at);
+    return true;
+  }
+
+  sessionTombstones(sessionId: string): Tombstone[] {
+    return this.db.prepare(`SELECT student_id AS studentId, deleted_at AS deletedAt FROM tombstones WHERE session_id = ? ORDER BY deleted_at`)
+      .all(sessionId) as Tombstone[];
+  }
+
+  sessionRecords(sessionId: string): StoredRecord[] {
+    return this.db.prepare(`SELECT * FROM records WHERE session_id = ? ORDER BY timestamp`).all(sessionId).map(toRecord);
+  }
+
+  appendAudit(row: AuditRow) {
+    this.db.prepare(`
+      INSERT INTO audit (at, session_id, action, student_id, old_status, new_status, source, actor, reason)
+      VALUES (@at, @sessionId, @action, @studentId, @oldStatus, @newStatus, @source, @actor, @reason)
+    `).run(row);
+  }
+
+  sessionAudit(sessionId: string): AuditRow[] {
+    return this.db.prepare(`
+      SELECT at, session_id AS sessionId, action, student_id AS studentId, old_status AS oldStatus,
+        new_status AS newStatus, source, actor, reason
+      FROM audit WHERE session_id = ? ORDER BY at, id
+    `).all(sessionId) as AuditRow[];
+  }
+
+  recordsSince(since: number): StoredRecord[] {
+    return this.db.prepare(`SELECT * FROM records WHERE timestamp >= ? ORDER BY timestamp`).all(since).map(toRecord);
+  }
+
+  /**
+   * Every session with its marks, for the history report. Students come from
+   * the latest roster plus anyone who was ever recorded.
+   */
+  history() {
+    const sessions = this.listSessions().map(s => ({
+      id: s.id,
+      label: s.courseCode ? `${s.courseCode}${s.section ? ` · ${s.section}` : ''}` : s.id,
+      startTime: s.startTime,
+      ...(s.week ? { week: s.week } : {}),
+    }));
+    const students = new Map((this.findRoster()?.students || []).map(s => [s.id, s.name]));
+    const rows = this.db.prepare(`SELECT session_id, student_id, name, status FROM records ORDER BY timestamp`).all() as any[];
+    rows.forEach(r => { if (!students.get(r.student_id)) students.set(r.student_id, r.name); });
+    return {
+      sessions,
+      students: Array.from(students, ([id, name]) => ({ id, name })),
+      entries: rows.map(r => ({ sessionId: r.session_id, studentId: r.student_id, status: r.status as AttendanceStatus })),
+    };
+  }
+
+  listSessions(): Session[] {
+    return this.db.prepare(`SELECT * FROM sessions ORDER BY start_time DESC`).all().map(toSession);
+  }
+
+  getSession(id: string): Session | null {
+    const row = this.db.prepare(`SELECT * FROM sessions WHERE id = ?`).get(id);
+    return row ? toSession(row) : null;
+  }
+
+  saveSession(session: Session) {
+    this.db.prepare(`
+      INSERT INTO sessions (id, course_code, section, week, start_time, end_time, status, late_after_minutes)
+      VALUES (@id, @courseCode, @section, @week, @startTime, @endTime, @status, @lateAfterMinutes)
+      ON CONFLICT (id) DO UPDATE SET
+        course_code = excluded.course_code, section = excluded.section, week = excluded.week,
+        start_time = excluded.start_time, end_time = excluded.end_time, status = excluded.status,
+        late_after_minutes = excluded.late_after_minutes
+    `).run({ endTime: null, lateAfterMinutes: null, ...session });
+  }
+
+  /** Closes or reopens a session, creating it if no record has named it yet. */
+  setSessionStatus(id: string, status: SessionStatus, startTime: number, at: number) {
+    const endTime = status === 'closed' ? at : null;
+    this.db.prepare(`
+      INSERT INTO sessions (id, start_time, end_time, status) VALUES (?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET end_time = excluded.end_time, status = excluded.status
+    `).run(id, startTime, endTime, status);
+  }
+
+  listRosters(): Roster[] {
+    return this.db.prepare(`SELECT id FROM rosters ORDER BY updated_at DESC`).all()
+      .map((row: any) => this.getRoster(row.id))
+      .filter((r): r is Roster => r !== null);
+  }
+
+  getRoster(id: string): Roster | null {
+    const row: any = this.db.prepare(`SELECT * FROM rosters WHERE id = ?`).get(id);
+    if (!row) return null;
+    const students = this.db.prepare(`SELECT student_id AS id, name FROM roster_students WHERE roster_id = ? ORDER BY student_id`).all(id) as RosterStudent[];
+    return { id: row.id, name: row.name, courseCode: row.course_code, students, updatedAt: row.updated_at };
+  }
+
+  /** The roster for a course, or the most recently updated one when no course is given. */
+  findRoster(courseCode?: string): Roster | null {
+    const row: any = courseCode
+      ? this.db.prepare(`SELECT id FROM rosters WHERE course_code = ? ORDER BY updated_at DESC LIMIT 1`).get(courseCode)
+      : this.db.prepare(`SELECT id FROM rosters ORDER BY updated_at DESC LIMIT 1`).get();
+    return row ? this.getRoster(row.id) : null;
+  }
+
+  saveRoster(roster: Roster) {
+    this.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO rosters (id, name, course_code, updated_at) VALUES (@id, @name, @courseCode, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET name = excluded.name, course_code = excluded.course_code, updated_at = excluded.updated_at
+      `).run(roster);
+      this.db.prepare(`DELETE FROM roster_students WHERE roster_id = ?`).run(roster.id);
+      const insert = this.db.prepare(`INSERT OR REPLACE INTO roster_students (roster_id, student_id, name) VALUES (?, ?, ?)`);
+      roster.students.forEach(s => insert.run(roster.id, s.id, s.name));
+    });
+  }
+
+  deleteRoster(id: string): boolean {
+    return this.db.prepare(`DELETE FROM rosters WHERE id = ?`).run(id).changes > 0;
+  }
+}
@@ -0,0 +1,116 @@
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify } from 'node:crypto';
+import type { Geofence } from '../types';
+import { parseGeofence } from './geofence';
+// Same limits as the app and the Apps Script.
+import { TOKEN_CLOCK_SKEW_MS, TOKEN_MAX_AGE_MS } from '../tokenTiming';
+
+// Mirrors TOKEN_FLAG_CODE and the verification code rules in qrToken.ts. A code
+// is accepted from one window before the scan until a couple of minutes after.
+const TOKEN_FLAG_CODE = 1;
+const CODE_WINDOW_MS = 30000;
+const CODE_LENGTH = 4;
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_WINDOWS_BEFORE = 1;
+const CODE_WINDOWS_AFTER = 4;
+
+const SIGNATURE_BYTES = 16;
+
+// Mirrors signTeacherWrite in qrToken.ts.
+const TEACHER_WRITE_CONTEXT = 'teacher-writes';
+const UNSIGNED_FIELDS = ['taskId', 'teacherSig'];
+
+// Mirrors deviceIdentity.ts: a phone signs `check-in.<token>.<studentId>` with
+// a P-256 key it cannot export, and its device ID is a hash of the public key.
+const DEVICE_ID_LENGTH = 16;
+
+export type ServerTokenCheck =
+  | { valid: true; sessionId?: string; issuedAt?: number; lateAt?: number; geofence?: Geofence; signature?: string }
+  | { valid: false; reason: string };
+
+const hmac = (key: string, message: string) => createHmac('sha256', key).update(message).digest();
+
+const verificationCode = (sessionSecret: string, sessionId: string, windowIndex: number) =>
+  Array.from(hmac(sessionSecret, `code.${sessionId}.${windowIndex.toString(36)}`).subarray(0, CODE_LENGTH), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+
+/**
+ * Verifies a `<sessionId>.<issuedAt>.<lateAt>[.<flags>[.<geofence>]].<signature>` token (see
+ * qrToken.ts). When `code` is given and the token asks for a verification code,
+ * the code must match; pass `code: ''` on writes so a missing code is rejected.
+ * Without a secret every token is rejected, like a script with no TOKEN_SECRET:
+ * the signing key is what keeps strangers from writing attendance.
+ */
+export const verifyToken = (token: unknown, secret: string, code?: string, now: number = Date.now()): ServerTokenCheck => {
+  if (!secret) return { valid: false, reason: 'TOKEN_SECRET is not set on the backend' };
+
+  const parts = String(token || '').split('.');
+  if (parts.length < 4 || parts.length > 6) return { valid: false, reason: 'Missing or malformed QR token' };
+  const [sessionId, issuedRaw, lateRaw] = parts;
+  const signature = parts[parts.length - 1];
+
+  const issuedAt = parseInt(issuedRaw, 36);
+  const lateAt = parseInt(lateRaw, 36);
+  const flags = parts.length >= 5 ? parseInt(parts[3], 36) : 0;
+  const geofence = parts.length === 6 ? parseGeofence(parts[4]) : undefined;
+  if (parts.length === 6 && !geofence) return { valid: false, reason: 'Missing or malformed QR token' };
+  const age = now - issuedAt;
+  if (isNaN(issuedAt) || isNaN(lateAt) || isNaN(flags) || age < -TOKEN_CLOCK_SKEW_MS) return { valid: false, reason: 'Invalid QR token time' };
+  if (age > TOKEN_MAX_AGE_MS) return { valid: false, reason: 'Expired QR token' };
+
+  const sessionSecret = hmac(secret, sessionId).toString('hex');
+  const expected = hmac(sessionSecret, parts.slice(0, -1).join('.')).subarray(0, SIGNATURE_BYTES);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return { valid: false, reason: 'Invalid QR token signature' };
+
+  if (code !== undefined && (flags & TOKEN_FLAG_CODE)) {
+    const given = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (!given) return { valid: false, reason: 'Missing verification code' };
+    const first = Math.floor(issuedAt / CODE_WINDOW_MS);
+    let matched = false;
+    for (let w = first - CODE_WINDOWS_BEFORE; w <= first + CODE_WINDOWS_AFTER && !matched; w++) {
+      matched = verificationCode(sessionSecret, sessionId, w) === given;
+    }
+    if (!matched) return { valid: false, reason: 'Wrong verification code' };
+  }
+
+  return { valid: true, sessionId, issuedAt, lateAt, ...(geofence ? { geofence } : {}), signature };
+};
+
+const teacherWritePayload = (data: Record<string, unknown>) => Object.keys(data)
+  .filter(key => !UNSIGNED_FIELDS.includes(key))
+  .sort()
+  .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(data[key] ?? ''))}`)
+  .join('&');
+
+/**
+ * Checks `teacherSig` on a write from the teacher's device: an HMAC over every
+ * other field, keyed with a secret derived from the signing key that no QR
+ * token is signed with.
+ */
+export const verifyTeacherSignature = (data: Record<string, unknown>, secret: string): ServerTokenCheck => {
+  if (!secret) return { valid: false, reason: 'TOKEN_SECRET is not set on the backend' };
+  const teacherSecret = hmac(secret, TEACHER_WRITE_CONTEXT).toString('hex');
+  const expected = hmac(teacherSecret, teacherWritePayload(data)).subarray(0, SIGNATURE_BYTES);
+  const actual = Buffer.from(String(data.teacherSig || ''), 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return { valid: false, reason: 'Invalid teacher signature' };
+  return { valid: true };
+};
+
+/**
+ * Checks `deviceSig` on a phone's check-in: an ECDSA P-256 signature by the key
+ * in `devicePublicKey`, whose hash must be the `deviceId` sent with it.
+ */
+export const verifyDeviceSignature = (data: Record<string, unknown>, studentId: string): ServerTokenCheck => {
+  const publicKey = Buffer.from(String(data.devicePublicKey || ''), 'base64url');
+  const signature = Buffer.from(String(data.deviceSig || ''), 'base64url');
+  if (publicKey.length === 0 || signature.length === 0) return { valid: false, reason: 'Device signature required' };
+  const invalid = { valid: false as const, reason: 'Invalid device signature' };
+  if (publicKey.length !== 65 || publicKey[0] !== 4) return invalid;
+  if (createHash('sha256').update(publicKey).digest('hex').slice(0, DEVICE_ID_LENGTH) !== String(data.deviceId || '')) return invalid;
+  try {
+    const key = createPublicKey({ key: { kty: 'EC', crv: 'P-256', x: publicKey.subarray(1, 33).toString('base64url'), y: publicKey.subarray(33).toString('base64url') }, format: 'jwk' });
+    const message = Buffer.from(`check-in.${String(data.token || '')}.${studentId}`);
+    return verify('sha256', message, { key, dsaEncoding: 'ieee-p1363' }, signature) ? { valid: true } : invalid;
+  } catch (e) {
+    return invalid;
+  }
+};
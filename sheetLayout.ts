@@ -0,0 +1,124 @@
+// Where things live in the lecturer's Google Sheet. The Apps Script is
+// generated from this, so every sheet template can be described without
+// editing the script by hand. Columns are letters as shown in Sheets.
+
+export interface SheetTab {
+  name: string;
+  // Date columns, one per class meeting, left to right.
+  firstDateColumn: string;
+  lastDateColumn: string;
+}
+
+export interface SheetLayout {
+  sheets: SheetTab[];
+  dateRow: number;
+  firstStudentRow: number;
+  idColumn: string;
+  nameColumn: string;
+  // Utilities.formatDate pattern of the date headers, e.g. dd/MM/yyyy.
+  dateFormat: string;
+}
+
+/** The layout the script always had: W1-W14 over three sheets. */
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  sheets: [
+    { name: 'W1-W5', firstDateColumn: 'O', lastDateColumn: 'T' },
+    { name: 'W6-W10', firstDateColumn: 'K', lastDateColumn: 'T' },
+    { name: 'W11-W14', firstDateColumn: 'K', lastDateColumn: 'T' },
+  ],
+  dateRow: 12,
+  firstStudentRow: 14,
+  idColumn: 'B',
+  nameColumn: 'D',
+  dateFormat: 'dd/MM/yyyy',
+};
+
+// Sheets allows columns up to ZZZ.
+const MAX_COLUMN = 18278;
+const DATE_PARTS: Record<string, string> = { d: 'day', dd: 'day', M: 'month', MM: 'month', yyyy: 'year' };
+
+/** 'A' -> 1, 'AA' -> 27; 0 when the letters are not a column. */
+export const columnNumber = (letters: string): number => {
+  const clean = letters.trim().toUpperCase();
+  if (!/^[A-Z]{1,3}$/.test(clean)) return 0;
+  const n = Array.from(clean).reduce((sum, ch) => sum * 26 + ch.charCodeAt(0) - 64, 0);
+  return n <= MAX_COLUMN ? n : 0;
+};
+
+const isRow = (n: number) => Number.isInteger(n) && n >= 1;
+
+/** Problems that would make the generated script read or write the wrong cells. Empty when the layout is usable. */
+export const validateSheetLayout = (layout: SheetLayout): string[] => {
+  const errors: string[] = [];
+  const idCol = columnNumber(layout.idColumn);
+  const nameCol = columnNumber(layout.nameColumn);
+
+  if (!isRow(layout.dateRow)) errors.push('Date row must be a whole number from 1.');
+  if (!isRow(layout.firstStudentRow)) errors.push('First student row must be a whole number from 1.');
+  if (isRow(layout.dateRow) && isRow(layout.firstStudentRow) && layout.firstStudentRow <= layout.dateRow) {
+    errors.push('Student rows must start below the date row.');
+  }
+  if (!idCol) errors.push(`"${layout.idColumn}" is not a column for student IDs.`);
+  if (!nameCol) errors.push(`"${layout.nameColumn}" is not a column for student names.`);
+  if (idCol && idCol === nameCol) errors.push('Student ID and name need different columns.');
+
+  const parts = layout.dateFormat.trim().split(/[\/.\- ]+/);
+  const kinds = parts.map(p => DATE_PARTS[p]);
+  if (parts.length !== 3 || kinds.some(k => !k) || new Set(kinds).size !== 3) {
+    errors.push('Date format needs a day, month and year separated by / . - or a space, e.g. dd/MM/yyyy.');
+  }
+
+  if (layout.sheets.length === 0) errors.push('Add at least one sheet.');
+  const names = new Set<string>();
+  layout.sheets.forEach((sheet, i) => {
+    const label = sheet.name.trim() || `Sheet ${i + 1}`;
+    if (!sheet.name.trim()) errors.push(`Sheet ${i + 1} needs a name.`);
+    else if (names.has(sheet.name.trim())) errors.push(`Sheet "${label}" is listed twice.`);
+    names.add(sheet.name.trim());
+
+    const first = columnNumber(sheet.firstDateColumn);
+    const last = columnNumber(sheet.lastDateColumn);
+    if (!first || !last) { errors.push(`${label}: date columns must be letters such as K and T.`); return; }
+    if (first > last) errors.push(`${label}: the first date column comes after the last.`);
+    if ([idCol, nameCol].some(col => col >= first && col <= last)) errors.push(`${label}: the date columns overlap the student ID or name column.`);
+  });
+  return errors;
+};
+
+const toText = (value: unknown, fallback: string) => typeof value === 'string' ? value : value == null ? fallback : String(value);
+
+/** Reads a shared layout file. Missing fields take the defaults; call validateSheetLayout on the result. */
+export const parseSheetLayout = (json: string): SheetLayout => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The layout is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.sheets)) throw new Error('The layout must have a "sheets" list.');
+  const d = DEFAULT_SHEET_LAYOUT;
+  return {
+    sheets: data.sheets.map((s: any) => ({
+      name: toText(s?.name, ''),
+      firstDateColumn: toText(s?.firstDateColumn, '').toUpperCase(),
+      lastDateColumn: toText(s?.lastDateColumn, '').toUpperCase(),
+    })),
+    dateRow: data.dateRow == null ? d.dateRow : Number(data.dateRow),
+    firstStudentRow: data.firstStudentRow == null ? d.firstStudentRow : Number(data.firstStudentRow),
+    idColumn: toText(data.idColumn, d.idColumn).toUpperCase(),
+    nameColumn: toText(data.nameColumn, d.nameColumn).toUpperCase(),
+    dateFormat: toText(data.dateFormat, d.dateFormat),
+  };
+};
+
+export const serializeSheetLayout = (layout: SheetLayout): string => JSON.stringify(layout, null, 2);
+
+/** The layout as the script reads it: column numbers instead of letters. */
+export const toScriptLayout = (layout: SheetLayout) => ({
+  sheets: layout.sheets.map(s => ({ name: s.name.trim(), startCol: columnNumber(s.firstDateColumn), endCol: columnNumber(s.lastDateColumn) })),
+  dateRow: layout.dateRow,
+  firstRow: layout.firstStudentRow,
+  idColumn: columnNumber(layout.idColumn),
+  nameColumn: columnNumber(layout.nameColumn),
+  dateFormat: layout.dateFormat.trim(),
+});
@@ -0,0 +1,321 @@
+// What the dashboard keeps between visits, in IndexedDB. The database has a
+// schema version and every version comes with a migration from the one before,
+// so an upgrade carries old data forward instead of starting a fresh key.
+// Collections are written record by record, only where something changed.
+
+import type { Roster, Session, Student } from './types';
+import type { DeadLetter, SyncTask } from './syncQueue';
+import type { AuditEntry } from './audit';
+import type { LockedSecrets } from './teacherLock';
+import type { LocalRecord } from './backends/local';
+
+export const DB_NAME = 'attendance';
+
+// Records saved before sessions existed are grouped under this closed session.
+export const LEGACY_SESSION_ID = 'legacy';
+
+export type CollectionStore = 'records' | 'sessions' | 'rosters' | 'syncQueue' | 'deadLetters' | 'deletedIds' | 'audit';
+type StoreName = CollectionStore | 'settings' | 'localRecords';
+
+export interface StoredSettings {
+  backendKind?: string;
+  // Plain only on devices that have not set a teacher PIN yet; the first
+  // login moves them into lockedSecrets.
+  scriptUrl?: string;
+  signingKey?: string;
+  lockedSecrets?: LockedSecrets;
+  // JSON as written by serializeSheetLayout.
+  sheetLayout?: string;
+  activeSessionId?: string;
+  activeRosterId?: string;
+  syncCeilings?: Record<string, number>;
+  // Name written into the audit log for the teacher's own changes.
+  auditActor?: string;
+}
+
+export interface StoredState {
+  records: Student[];
+  sessions: Session[];
+  rosters: Roster[];
+  syncQueue: SyncTask[];
+  deadLetters: DeadLetter[];
+  // Keys from deletedKey() in App.tsx.
+  deletedIds: string[];
+  audit: AuditEntry[];
+  settings: StoredSettings;
+}
+
+export const EMPTY_STATE: StoredState = { records: [], sessions: [], rosters: [], syncQueue: [], deadLetters: [], deletedIds: [], audit: [], settings: {} };
+
+export interface StoreChange {
+  store: StoreName;
+  put: object[];
+  remove: IDBValidKey[];
+}
+
+const KEY_OF: Record<CollectionStore, (item: any) => IDBValidKey> = {
+  records: (r: Student) => [r.sessionId, r.studentId],
+  sessions: (s: Session) => s.id,
+  rosters: (r: Roster) => r.id,
+  syncQueue: (t: SyncTask) => t.id,
+  deadLetters: (t: DeadLetter) => t.id,
+  deletedIds: (d: { id: string }) => d.id,
+  audit: (e: AuditEntry) => e.id,
+};
+
+// Where each localStorage key of the old app goes.
+const LEGACY_KEYS = {
+  records: 'attendance-storage-standard-v1',
+  deletedIds: 'attendance-deleted-ids-v2',
+  // Student IDs only, from before sessions existed.
+  deletedIdsV1: 'attendance-deleted-ids-v1',
+  // Every session of the local backend in one JSON object.
+  localBackend: 'attendance-local-backend-v1',
+  scriptUrl: 'attendance-script-url-v21',
+  backendKind: 'attendance-backend-kind-v1',
+  syncQueue: 'attendance-sync-queue-v2',
+  signingKey: 'attendance-signing-key-v1',
+  sessions: 'attendance-sessions-v1',
+  activeSessionId: 'attendance-active-session-v1',
+  rosters: 'attendance-rosters-v1',
+  activeRosterId: 'attendance-active-roster-v1',
+  sheetLayout: 'attendance-sheet-layout-v1',
+  deadLetters: 'attendance-dead-letters-v1',
+  syncCeilings: 'attendance-sync-ceilings-v1',
+};
+
+interface Migration {
+  version: number;
+  // Runs inside the upgrade transaction. Returns localStorage keys to drop once it commits.
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => string[];
+}
+
+const readLegacyJson = (key: string): any => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch (e) {
+    console.warn(`Ignoring unreadable ${key}:`, e);
+    return undefined;
+  }
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    // The first IndexedDB schema; imports everything the localStorage version saved.
+    version: 1,
+    upgrade: (db, tx) => {
+      db.createObjectStore('records', { keyPath: ['sessionId', 'studentId'] }).createIndex('bySession', 'sessionId');
+      db.createObjectStore('sessions', { keyPath: 'id' });
+      db.createObjectStore('rosters', { keyPath: 'id' });
+      db.createObjectStore('syncQueue', { keyPath: 'id' });
+      db.createObjectStore('deadLetters', { keyPath: 'id' });
+      db.createObjectStore('deletedIds', { keyPath: 'id' });
+      db.createObjectStore('settings', { keyPath: 'key' });
+
+      const list = (key: string): any[] => {
+        const value = readLegacyJson(key);
+        return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+      };
+      const records: Student[] = list(LEGACY_KEYS.records)
+        .filter(s => s.studentId)
+        .map(s => s.sessionId ? s : { ...s, sessionId: LEGACY_SESSION_ID });
+      const sessions: Session[] = list(LEGACY_KEYS.sessions).filter(s => s.id);
+      const legacy = records.filter(s => s.sessionId === LEGACY_SESSION_ID);
+      if (legacy.length > 0 && !sessions.some(s => s.id === LEGACY_SESSION_ID)) {
+        sessions.push({
+          id: LEGACY_SESSION_ID,
+          courseCode: 'UNASSIGNED',
+          section: '',
+          week: 0,
+          startTime: Math.min(...legacy.map(s => s.timestamp)),
+          endTime: Math.max(...legacy.map(s => s.timestamp)),
+          status: 'closed',
+        });
+      }
+      records.forEach(r => tx.objectStore('records').put(r));
+      sessions.forEach(s => tx.objectStore('sessions').put(s));
+      list(LEGACY_KEYS.rosters).filter(r => r.id).forEach(r => tx.objectStore('rosters').put(r));
+      list(LEGACY_KEYS.syncQueue).filter(t => t.id).forEach(t => tx.objectStore('syncQueue').put(t));
+      list(LEGACY_KEYS.deadLetters).filter(t => t.id).forEach(t => tx.objectStore('deadLetters').put(t));
+      const deletedIds = readLegacyJson(LEGACY_KEYS.deletedIds);
+      if (Array.isArray(deletedIds)) deletedIds.forEach(id => tx.objectStore('deletedIds').put({ id: String(id) }));
+
+      const settings: StoredSettings = {};
+      (['scriptUrl', 'backendKind', 'signingKey', 'activeSessionId', 'activeRosterId', 'sheetLayout'] as const).forEach(key => {
+        const value = localStorage.getItem(LEGACY_KEYS[key]);
+        if (value) settings[key] = value;
+      });
+      const ceilings = readLegacyJson(LEGACY_KEYS.syncCeilings);
+      if (ceilings && typeof ceilings === 'object') settings.syncCeilings = ceilings;
+      Object.entries(settings).forEach(([key, value]) => tx.objectStore('settings').put({ key, value }));
+
+      return Object.values(LEGACY_KEYS);
+    },
+  },
+  {
+    // The audit log; nothing to import, the old app kept none.
+    version: 2,
+    upgrade: (db) => {
+      db.createObjectStore('audit', { keyPath: 'id' }).createIndex('byTime', 'at');
+      return [];
+    },
+  },
+  {
+    // IDs the first app hid or cleared. It only had the one session, so they
+    // belong to the legacy session that took over its records.
+    version: 3,
+    upgrade: (_db, tx) => {
+      const ids = readLegacyJson(LEGACY_KEYS.deletedIdsV1);
+      if (Array.isArray(ids)) ids.forEach(id => tx.objectStore('deletedIds').put({ id: `${LEGACY_SESSION_ID}:${String(id).toUpperCase()}` }));
+      return [LEGACY_KEYS.deletedIdsV1];
+    },
+  },
+  {
+    // The local backend's records, one row each instead of one JSON object
+    // rewritten on every scan.
+    version: 4,
+    upgrade: (db, tx) => {
+      db.createObjectStore('localRecords', { keyPath: ['sessionId', 'studentId'] }).createIndex('bySession', 'sessionId');
+      const saved = readLegacyJson(LEGACY_KEYS.localBackend);
+      if (saved && typeof saved === 'object') {
+        Object.entries(saved).forEach(([sessionId, records]) => {
+          if (records && typeof records === 'object') Object.values(records as Record<string, any>)
+            .filter(r => r && r.studentId)
+            .forEach(r => tx.objectStore('localRecords').put({ ...r, sessionId }));
+        });
+      }
+      return [LEGACY_KEYS.localBackend];
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedKeys: string[] = [];
+    open.onupgradeneeded = (e) => {
+      const tx = open.transaction!;
+      MIGRATIONS
+        .filter(m => m.version > e.oldVersion)
+        .forEach(m => { migratedKeys = migratedKeys.concat(m.upgrade(open.result, tx)); });
+      // Only once the import has committed is the old copy safe to drop.
+      tx.oncomplete = () => migratedKeys.forEach(key => localStorage.removeItem(key));
+    };
+    open.onsuccess = () => {
+      // Another tab with a newer version wants to upgrade; step aside.
+      open.result.onversionchange = () => { open.result.close(); dbPromise = null; };
+      resolve(open.result);
+    };
+    open.onerror = () => reject(open.error);
+    open.onblocked = () => console.warn('Storage upgrade is waiting for other tabs of this app to close.');
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/** Everything saved, in the order the app keeps it in memory. */
+export const loadStoredState = async (): Promise<StoredState> => {
+  const db = await openDb();
+  const names: StoreName[] = ['records', 'sessions', 'rosters', 'syncQueue', 'deadLetters', 'deletedIds', 'audit', 'settings'];
+  const tx = db.transaction(names, 'readonly');
+  const [records, sessions, rosters, syncQueue, deadLetters, deletedIds, audit, settings] = await Promise.all(
+    names.map(name => requestResult<any[]>(tx.objectStore(name).getAll())));
+  return {
+    records: (records as Student[]).sort((a, b) => b.timestamp - a.timestamp),
+    sessions: (sessions as Session[]).sort((a, b) => a.startTime - b.startTime),
+    rosters: (rosters as Roster[]).sort((a, b) => a.name.localeCompare(b.name)),
+    syncQueue: (syncQueue as SyncTask[]).sort((a, b) => a.timestamp - b.timestamp),
+    deadLetters: (deadLetters as DeadLetter[]).sort((a, b) => a.failedAt - b.failedAt),
+    deletedIds: deletedIds.map((d: { id: string }) => d.id),
+    audit: (audit as AuditEntry[]).sort((a, b) => a.at - b.at),
+    settings: Object.fromEntries(settings.map((s: { key: string, value: unknown }) => [s.key, s.value])),
+  };
+};
+
+/**
+ * What to write to bring a collection from `prev` to `next`. Unchanged items
+ * keep their identity through React state updates, so only new or replaced
+ * items are put. Null when nothing changed.
+ */
+export const collectionChange = <T extends object>(store: CollectionStore, prev: T[], next: T[]): StoreChange | null => {
+  const keyOf = KEY_OF[store];
+  const before = new Map(prev.map(item => [JSON.stringify(keyOf(item)), item]));
+  const after = new Set<string>();
+  const put = next.filter(item => {
+    const key = JSON.stringify(keyOf(item));
+    after.add(key);
+    return before.get(key) !== item;
+  });
+  const remove = prev.filter(item => !after.has(JSON.stringify(keyOf(item)))).map(keyOf);
+  return put.length > 0 || remove.length > 0 ? { store, put, remove } : null;
+};
+
+/** Like collectionChange for sets of strings, stored as `{ id }`. */
+export const idSetChange = (store: CollectionStore, prev: Set<string>, next: Set<string>): StoreChange | null => {
+  const put = Array.from(next).filter(id => !prev.has(id)).map(id => ({ id }));
+  const remove = Array.from(prev).filter(id => !next.has(id));
+  return put.length > 0 || remove.length > 0 ? { store, put, remove } : null;
+};
+
+/** Applies the changes in one transaction: all of them are saved, or none. */
+export const saveChanges = async (changes: (StoreChange | null)[]): Promise<void> => {
+  const pending = changes.filter((c): c is StoreChange => c !== null);
+  if (pending.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(Array.from(new Set(pending.map(c => c.store))), 'readwrite');
+    pending.forEach(change => {
+      const store = tx.objectStore(change.store);
+      change.remove.forEach(key => store.delete(key));
+      change.put.forEach(item => store.put(item));
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** The local backend's records, of one session or all of them. */
+export const loadLocalRecords = async (sessionId?: string): Promise<LocalRecord[]> => {
+  const db = await openDb();
+  const store = db.transaction('localRecords', 'readonly').objectStore('localRecords');
+  return requestResult<LocalRecord[]>(sessionId === undefined ? store.getAll() : store.index('bySession').getAll(sessionId));
+};
+
+/** Writes only the local backend's records that changed, in one transaction. */
+export const saveLocalRecords = (put: LocalRecord[], remove: [string, string][]): Promise<void> =>
+  saveChanges([{ store: 'localRecords', put, remove }]);
+
+/**
+ * Deletes the database and whatever else the app left in localStorage. A PIN
+ * reset does this, since without the PIN nobody may see the records, rosters
+ * and audit log it protected.
+ */
+export const eraseStoredState = async (): Promise<void> => {
+  const db = dbPromise && await dbPromise.catch(() => null);
+  db?.close();
+  dbPromise = null;
+  localStorage.clear();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Erasing storage is waiting for other tabs of this app to close.');
+  });
+};
+
+/** Saves one setting; failures are logged, since the app keeps working on what it has in memory. */
+export const saveSetting = <K extends keyof StoredSettings>(key: K, value: StoredSettings[K]): Promise<void> =>
+  saveChanges([value === undefined ? { store: 'settings', put: [], remove: [key] } : { store: 'settings', put: [{ key, value }], remove: [] }])
+    .catch(err => console.warn(`Could not save ${key}:`, err));
@@ -1,209 +0,0 @@
-
-export interface PreRegisteredStudent {
-    id: string;
-    name: string;
-}
-
-export const PRE_REGISTERED_STUDENTS: PreRegisteredStudent[] = [
-    { id: "FIA24060095", name: "TEN TAT JIAN" },
-    { id: "FIA25060003", name: "KAREN WONG YI WEN" },
-    { id: "FIA25060005", name: "LEE GUO JIE" },
-    { id: "FIA25060009", name: "JASMINE WONG SHI MEI" },
-    { id: "FIA25060014", name: "CHAN LE TING" },
-    { id: "FIA25060016", name: "EDMUND TIE HIENG CHUONG" },
-    { id: "FIA25060017", name: "JACKY LAU SIE JUN" },
-    { id: "FIA25060026", name: "WONG PENG KAI" },
-    { id: "FIA25060027", name: "ALICIA SEE YI WEI" },
-    { id: "FIA25060028", name: "TING RONG JING" },
-    { id: "FIA25060030", name: "LIM FU JIE" },
-    { id: "FIA25060035", name: "RACHEL TIONG LANG WEN" },
-    { id: "FIA25060036", name: "LIM QUAN WEI" },
-    { id: "FIA25060041", name: "SHANNYN WONG YING TZE" },
-    { id: "FIA25060042", name: "TIONG YU HAN" },
-    { id: "FIA25060049", name: "CHEE KAI MUN" },
-    { id: "FIA25060050", name: "ELEORA HANNA NACHEE ANAK JEFFERY" },
-    { id: "FIA25060051", name: "STEVENS WILLIAM NYANGAN ANAK PRIE" },
-    { id: "FIA25060052", name: "JASON LIAN ANAK JACOB" },
-    { id: "FIA25060054", name: "COLLEEN NGO XUE QING" },
-    { id: "FIA25060066", name: "JANICE LEE PEI NI" },
-    { id: "FIA25060067", name: "CHIONG JIA HUI" },
-    { id: "FIA25060070", name: "JONAS WONG HIU HAN" },
-    { id: "FIA25060072", name: "CHANG YII XI" },
-    { id: "FIA25060075", name: "GENEVIEVE YAP ER SHAN" },
-    { id: "FIA25060076", name: "LIM CHIN YII" },
-    { id: "FIA25060077", name: "DANNZELL KONG ZE HAO" },
-    { id: "FIA25060079", name: "JANICE LING SHU YIE" },
-    { id: "FIA25060081", name: "YUEN QING RUAN" },
-    { id: "FIA25060086", name: "VICTOR DAR FU REN" },
-    { id: "FIA25060093", name: "ESTHER TOH KAH XIN" },
-    { id: "FIA25060097", name: "MANDY LEE EN TING" },
-    { id: "FIA25060099", name: "MARK TING JIE SIANG" },
-    { id: "FIA25060100", name: "PATRICK YONG YUNG EN" },
-    { id: "FIA25060101", name: "EELYOND TING" },
-    { id: "FIA25060102", name: "CHRYSOLIUS PATRICAIN JEGAI ANAK CHRYSOSTOM" },
-    { id: "FIA25060104", name: "WONG YU XUAN" },
-    { id: "FIA25060105", name: "BHARATT RAVINDRAN" },
-    { id: "FIA25060108", name: "DESMOND WONG YI SHENG" },
-    { id: "FIA25060109", name: "NG JIE SHI" },
-    { id: "FIA25060113", name: "SUDAN FRANKLIN LANTAP" },
-    { id: "FIA25060115", name: "EMIKO HII TZI HAN" },
-    { id: "FIA25060119", name: "KHU REN CHENG" },
-    { id: "FIA25060127", name: "ILI SABRINA BINTI SUFRI" },
-    { id: "FIA25060131", name: "JENSON WONG JUN WEI" },
-    { id: "FIA25060133", name: "SYAZWANNI ARMERA BINTI SUMANDI" },
-    { id: "FIA25060137", name: "VALERINA CHANG WEN MAN" },
-    { id: "FIA25060143", name: "CHONG SIEW CHIN" },
-    { id: "FIA25060144", name: "RAINIE JAP KHA YEE" },
-    { id: "FIA25060148", name: "KELLY BONG XIN JIE" },
-    { id: "FIA25060152", name: "CONNIE VUN JIA HUI" },
-    { id: "FIA25060154", name: "IRENE CHUNG TUANG YING" },
-    { id: "FIA25060160", name: "JOLIN WONG XIANG LIN" },
-    { id: "FIA25060162", name: "TIMOTHY CHIA KING HAO" },
-    { id: "FIA25060167", name: "SKY LING WENG SING" },
-    { id: "FIA25060171", name: "LEE PIK HAO" },
-    { id: "FIA25060173", name: "AMBER CHUA YIEN ER" },
-    { id: "FIA25060179", name: "SHIRLEY TING SHI LING" },
-    { id: "FIA25060182", name: "AUSTIN KONG YI SIANG" },
-    { id: "FIA25060183", name: "ROONEY RUMPANG ANAK MINGGU" },
-    { id: "FIA25060186", name: "MIA ELLFILDYA ANAK STEPHEN JUDI" },
-    { id: "FIA25060190", name: "WONG LEE LE" },
-    { id: "FIA25060192", name: "JANICE NGU YUER" },
-    { id: "FIA25060193", name: "ARTHUR WOON JYUE HONG" },
-    { id: "FIA25060199", name: "ANNIE CHEW ZHANG XING" },
-    { id: "FIA25060201", name: "VERONICA BARBARA ANAK VINCENT CHURCHIL" },
-    { id: "FIA25060203", name: "MAGDELENE ANNE IRVIANA ANAK TONY" },
-    { id: "FIA25060206", name: "JOSHUA NG REN HONG" },
-    { id: "FIA25060209", name: "VIVIAN LIM PEI XUAN" },
-    { id: "FIA25060210", name: "RACHEL SU SIEW YUAN" },
-    { id: "FIA25060213", name: "CARY KONG XIN YAN" },
-    { id: "FIA25060217", name: "GORDON DEI HIENG KEE" },
-    { id: "FIA25060221", name: "CATRINA CHIONG CHING" },
-    { id: "FIA25060222", name: "ANDREA LAU YEE WEN" },
-    { id: "FIA25060225", name: "TOU JING YU" },
-    { id: "FIA25060226", name: "LAU SIEW YI" },
-    { id: "FIA25060227", name: "HII SIENG MING" },
-    { id: "FIA25060228", name: "JACQUELINE NGU WEN SHUN" },
-    { id: "FIA25060233", name: "HU GUO QIAO" },
-    { id: "FIA25060237", name: "IRIS NUR' IRYANI BINTI SUNAINI" },
-    { id: "FIA25060238", name: "WONG LEE YANG" },
-    { id: "FIA25060239", name: "ANGELINA CHEW YEAN LING" },
-    { id: "FIA25060242", name: "LIM SING NIE" },
-    { id: "FIA25060243", name: "NGU LI YIN" },
-    { id: "FIA25060249", name: "WILLIAM WONG QING YI" },
-    { id: "FIA25060253", name: "DAVID THEN JUN YANG" },
-    { id: "FIA25060255", name: "PRESLEY WONG HOW YU" },
-    { id: "FIA25060257", name: "CHAN WEI YUEN" },
-    { id: "FIA25060260", name: "IVOR TANG YI HONG" },
-    { id: "FIA25060262", name: "ALEXANDER LIM LEE HWA" },
-    { id: "FIA25060263", name: "CLEMENT TING KUI SHUN" },
-    { id: "FIA25060265", name: "MANDY LEONG" },
-    { id: "FIA25060273", name: "JORDON TING LI GUANG" },
-    { id: "FIA25060275", name: "CLEO BAW EN XUAN" },
-    { id: "FIA25060276", name: "ANGELINA WONG XIAO JIE" },
-    { id: "FIA25060279", name: "WONG MEI HUI" },
-    { id: "FIA25060280", name: "ALLEN NG WEI HONG" },
-    { id: "FIA25060284", name: "JANICE TIONG ANG QI" },
-    { id: "FIA25060291", name: "ALISON TENG LI XUAN" },
-    { id: "FIA25060293", name: "ARIEL TENG LI JING" },
-    { id: "FIA25060294", name: "WENDY JASMINA REYNOLD BOBBY" },
-    { id: "FIA25060304", name: "KELVIN TING" },
-    { id: "FIA25060305", name: "JUSTIN TIONG SHI KUANG" },
-    { id: "FIA25060306", name: "WINNIE HUONG YEE HUI" },
-    { id: "FIA25060309", name: "LUCIAN LAW LI JUN" },
-    { id: "FIA25060310", name: "LYDIA TING EN YEE" },
-    { id: "FIA25060311", name: "JOANE LAU TII ING" },
-    { id: "FIA25060314", name: "YONG LIANG" },
-    { id: "FIA25060318", name: "LOH SIE TONG" },
-    { id: "FIA25060319", name: "MACMILLAN CLAREN DANA ANAK JUSTIN BOS" },
-    { id: "FIA25060326", name: "BEVERLY TIONG YU TONG" },
-    { id: "FIA25060327", name: "LING FUN YU" },
-    { id: "FIA25060331", name: "JEANNELLE JATA ANAK BALIE" },
-    { id: "FIA25060335", name: "HAFIY HAIQAL BIN ABDUL GHAFAR" },
-    { id: "FIA25060338", name: "ALVAN LING WEI SHENG" },
-    { id: "FIA25060341", name: "HU YU XUAN" },
-    { id: "FIA25060344", name: "BRANDON SIM SONG-RON" },
-    { id: "FIA25060350", name: "CHIENG HOCK WEI" },
-    { id: "FIA25060353", name: "QUEENIE ANG SIAW NIE" },
-    { id: "FIA25060355", name: "YEREMIA JOANE MARIA ANAK YARNTIE" },
-    { id: "FIA25060358", name: "JESMOND CHIONG JACK ONG" },
-    { id: "FIA25060362", name: "WILSON TEO JIA XUN" },
-    { id: "FIA25060363", name: "HERMAN YII HUNG CHI" },
-    { id: "FIA25060364", name: "AARON TOH KEE LOK" },
-    { id: "FIA25060365", name: "OLIVIA VANNESA ANAK JAMBING" },
-    { id: "FIA25060366", name: "CLEMENT LAU LIK SENG" },
-    { id: "FIA25060378", name: "EMILY TIE SIEN ZHEN" },
-    { id: "FIA25060379", name: "JOHANNA LAMBAN ANAK UGAS" },
-    { id: "FIA25060380", name: "MOHAMAD TUFAIL MAHMUD" },
-    { id: "FIA25060381", name: "EMILY YEO MING RUI" },
-    { id: "FIA25060389", name: "SHERENE CHONG XIN NING" },
-    { id: "FIA25060390", name: "AISY ZHAFRAN BIN ZULKIFLI" },
-    { id: "FIA25060391", name: "ESTEFANIA KIEW QI HUI" },
-    { id: "FIA25060392", name: "MUHAMMAD SHAHLISA IMAN BIN ISA" },
-    { id: "FIA25060407", name: "CHAN YAN SAN" },
-    { id: "FIA25060412", name: "JORDAN TING ZHI YOW" },
-    { id: "FIA25060415", name: "YUN KONG HONG" },
-    { id: "FIA25060423", name: "CRIS HII JIN YEE" },
-    { id: "FIA25060425", name: "IRENE WONG JIE YING" },
-    { id: "FIA25060427", name: "HUAN MON SING" },
-    { id: "FIA25060430", name: "THERESA TIA ANAK TANDANG" },
-    { id: "FIA25060431", name: "WINNIE LING CHUN NI" },
-    { id: "FIA25060437", name: "GABRIEL CHONG LI YONG" },
-    { id: "FIA25060438", name: "TING KIE SENG" },
-    { id: "FIA25060442", name: "RIZQ AZAMIROL FAZIRUL BIN ABDULLAH" },
-    { id: "FIA25060451", name: "DICKYSON ANAK SANGGA" },
-    { id: "FIA25060453", name: "CATHERINE YEH YUN WEN" },
-    { id: "FIA25060460", name: "JASON NGU KEE MIN" },
-    { id: "FIA25060461", name: "VICKY WONG XIN YUAN" },
-    { id: "FIA25060462", name: "JASLEEN WONG YEE LIN" },
-    { id: "FIA25060466", name: "LAW YIK YEW" },
-    { id: "FIA25060468", name: "ANNABEL SAMUEL TIONG SHU QI" },
-    { id: "FIA25060469", name: "RANDELL DAMIAN BIN RONNIE" },
-    { id: "FIA25060470", name: "YUMIKO YIT QING YU" },
-    { id: "FIA25060473", name: "LAI YUN XING" },
-    { id: "FIA25060476", name: "ELVIS YAP TAI JIE" },
-    { id: "FIA25060479", name: "ADRIAN TING KING SENG" },
-    { id: "FIA25060482", name: "TIFFANY YEK TECK NI" },
-    { id: "FIA25060483", name: "IVAN YAP HONG JUN" },
-    { id: "FIA25060484", name: "DESMOND TIONG XUN EEL" },
-    { id: "FIA25060485", name: "JESSICA WONG SING AI" },
-    { id: "FIA25060490", name: "PUANG XIN RU" },
-    { id: "FIA25060492", name: "PETER KONG ZHEN SIONG" },
-    { id: "FIA25060502", name: "KELLY BONG LEE CHI" },
-    { id: "FIA25060511", name: "ANGELINA KUEH KEXUAN" },
-    { id: "FIA25060514", name: "ELLENA BELLAFIOR EVA ANAK JASHUA" },
-    { id: "FIA25110001", name: "DAVID MATTHEOU" },
-    { id: "FIA25110002", name: "DARNIA HANA BINTI DANIAL HAKIMI NELTON" },
-    { id: "FIA25110005", name: "NURAINNI NADIRRA BINTI SHAHRIL" },
-    { id: "FIA25110006", name: "DANIEL TING SING KAH" },
-    { id: "FIA25110009", name: "RYAN WONG SHIAN JIE" },
-    { id: "FIA25110012", name: "SIM XIN JIE" },
-    { id: "FIA25110013", name: "JAYDEN WONG ZHU WEI" },
-    { id: "FIA25110015", name: "ALESANDRA RANI ANAK LAWRENCE JIKING" },
-    { id: "FIA25110020", name: "NATALIE VERONICA CHUA" },
-    { id: "FIA25110022", name: "HANANDES NUWIENG ANAK AUGUSTINE" },
-    { id: "FIA25110024", name: "NURUL ADRIANNA BALQIS BINTI HAMIZAN" },
-    { id: "FIA25110028", name: "NUR ALEESA UMAIRA BINTI SHAMSUL" },
-    { id: "FIA25110029", name: "LO YI XIANG" },
-    { id: "FIA25110031", name: "KAREN PETER" },
-    { id: "FIA25110032", name: "MELVIN KONG CHING CHENG" },
-    { id: "FIA25110035", name: "AHLAM FARIHAH BINTI ANNASMAHYUDIN" },
-    { id: "FIA25110039", name: "AMILLY THEU KWANG SING" },
-    { id: "FIA25110042", name: "PRISCILL KEE PEI JING" },
-    { id: "FIA25110045", name: "MUHAMMAD AMIRUN AMZAR BIN AISAMUDDIN" },
-    { id: "FIA25110047", name: "BRINA TANG KA HUI" },
-    { id: "FIA25110049", name: "MAXENTIUS JOANNES BIN JUHANA" },
-    { id: "FIA25110056", name: "RANDY WONG ZHAO XUAN" },
-    { id: "FIA25110057", name: "NEO HUN LI" },
-    { id: "FIA25110059", name: "LAU JIA QIN" },
-    { id: "FIA25110068", name: "JACKY WONG YOU TECK" },
-    { id: "FIA25110069", name: "OLYDIA MANU" },
-    { id: "FIA25110070", name: "YEONG BI YING" },
-    { id: "FIA25110078", name: "ALLEN YUONG ZI REN" },
-    { id: "FIA25110088", name: "SIMON WONG JIAN HENG" },
-    { id: "FIA25110091", name: "CONNIE LEE KIU JIE" },
-    { id: "FIA25110095", name: "ALEEYA MAISYARAH BINTI HARDIN" },
-    { id: "FIA25110098", name: "LAU WENG SIEW" },
-    { id: "FIA25110099", name: "KO KAI XIN" },
-    { id: "FIA25110102", name: "CHERYL LAU YU XUAN" },
-];
-    
\ No newline at end of file
@@ -0,0 +1,61 @@
+// How many sync requests run at once. The pool grows by one worker after a
+// full round of successes and halves when the backend pushes back (AIMD), so
+// it settles just under what the backend can take.
+
+import type { BackendKind } from './backends';
+import { errorMessage } from './syncQueue';
+
+export interface Concurrency {
+  limit: number;
+  // Successes since the limit last changed.
+  successes: number;
+}
+
+export interface SyncStats {
+  inFlight: number;
+  limit: number;
+  perMinute: number;
+}
+
+// Apps Script serialises writes behind one lock and allows about 30
+// simultaneous executions per user, so a few workers are plenty there.
+export const DEFAULT_SYNC_CEILINGS: Record<BackendKind, number> = {
+  'apps-script': 4,
+  rest: 8,
+  local: 1,
+};
+
+export const MAX_SYNC_CEILING = 16;
+export const THROUGHPUT_WINDOW_MS = 60000;
+
+export const INITIAL_CONCURRENCY: Concurrency = { limit: 1, successes: 0 };
+
+// 429s, 5xx, aborted (timed out) requests and lock waits: the backend is busy.
+const CONGESTION_ERRORS = [
+  /status: (429|5[0-9][0-9])/i,
+  /abort|time ?out|timed out/i,
+  /lock/i,
+  /too many|simultaneous invocations/i,
+];
+
+export const isCongestionError = (err: unknown): boolean => {
+  if (err instanceof Error && err.name === 'AbortError') return true;
+  const message = errorMessage(err);
+  return CONGESTION_ERRORS.some(pattern => pattern.test(message));
+};
+
+export const clampCeiling = (n: number): number => Math.min(MAX_SYNC_CEILING, Math.max(1, Math.floor(n) || 1));
+
+/** Additive increase: one more worker once `limit` requests in a row have succeeded. */
+export const afterSuccess = (c: Concurrency, ceiling: number): Concurrency => {
+  const successes = c.successes + 1;
+  if (successes >= c.limit) return { limit: Math.min(ceiling, c.limit + 1), successes: 0 };
+  return { limit: Math.min(ceiling, c.limit), successes };
+};
+
+/** Multiplicative decrease: half the workers, never below one. */
+export const afterCongestion = (c: Concurrency): Concurrency => ({ limit: Math.max(1, Math.floor(c.limit / 2)), successes: 0 });
+
+/** Records synced per minute, from the times recent records were accepted. */
+export const recordsPerMinute = (syncedAt: number[], now: number = Date.now()): number =>
+  syncedAt.filter(t => now - t < THROUGHPUT_WINDOW_MS).length * 60000 / THROUGHPUT_WINDOW_MS;
@@ -0,0 +1,88 @@
+// Records waiting to reach the backend, and the ones it refused for good.
+
+import type { SessionStatus } from './types';
+
+// What a task asks of the backend, from `data.kind`. Records carry no kind;
+// 'audit' tasks were queued by versions that could not delete yet; 'session'
+// tasks close or reopen a session.
+export type SyncTaskKind = 'record' | 'delete' | 'audit' | 'session';
+
+export interface SyncTask {
+  id: string;
+  data: Record<string, string>;
+  timestamp: number;
+  // Set once the task failed inside a batch; it is then sent on its own.
+  isolated?: boolean;
+  attempts?: number;
+  lastError?: string;
+  lastAttemptAt?: number;
+}
+
+/** A task the backend rejected for a reason retrying cannot fix. */
+export interface DeadLetter extends SyncTask {
+  failedAt: number;
+}
+
+export type SyncErrorKind = 'temporary' | 'permanent';
+
+// Rejections that fail the same way however often they are sent, from the
+// Apps Script and the server. A backend without TOKEN_SECRET, or one refusing
+// the teacher token, needs its settings fixed first; the dead letters can be
+// resubmitted after that. Anything else (timeouts, 5xx, lock waits, unknown
+// messages) is treated as temporary and retried. The service worker gets this
+// list on build (see vite.config.ts).
+export const PERMANENT_ERRORS = [
+  /missing student id/i,
+  /invalid status/i,
+  /qr token/i,
+  /verification code/i,
+  /teacher signature/i,
+  /teacher token/i,
+  /device signature/i,
+  /scan location/i,
+  /token_secret is not set/i,
+  /server status: 40[013]\b/i,
+  /sheets.*full/i,
+  /session date unknown/i,
+  /no column for/i,
+  /session is closed/i,
+  /missing session id/i,
+];
+
+export const classifySyncError = (message: string): SyncErrorKind =>
+  PERMANENT_ERRORS.some(pattern => pattern.test(message)) ? 'permanent' : 'temporary';
+
+export const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+export const newTaskId = () => Math.random().toString(36).substring(2, 9) + Date.now().toString();
+
+export const taskKind = (task: SyncTask): SyncTaskKind =>
+  task.data.kind === 'delete' || task.data.kind === 'audit' || task.data.kind === 'session' ? task.data.kind : 'record';
+
+/**
+ * Removes the student's record for the session on the backend, which keeps a
+ * tombstone. Like any write it loses to a change made after `at`.
+ */
+export const deleteTask = (sessionId: string, studentId: string, fields: Record<string, string> = {}, at: number = Date.now()): SyncTask => ({
+  id: newTaskId(),
+  data: { ...fields, kind: 'delete', sessionId, studentId, updatedAt: String(at) },
+  timestamp: at,
+});
+
+/** Tells the backend a session was closed or reopened; it refuses QR check-ins while closed. */
+export const sessionStatusTask = (sessionId: string, status: SessionStatus, at: number = Date.now()): SyncTask => ({
+  id: newTaskId(),
+  data: { kind: 'session', sessionId, sessionStatus: status, updatedAt: String(at) },
+  timestamp: at,
+});
+
+/** Records a failed try on the task. */
+export const withFailure = (task: SyncTask, message: string, at: number = Date.now()): SyncTask =>
+  ({ ...task, attempts: (task.attempts || 0) + 1, lastError: message, lastAttemptAt: at });
+
+export const toDeadLetter = (task: SyncTask, message: string, at: number = Date.now()): DeadLetter =>
+  ({ ...withFailure(task, message, at), isolated: true, failedAt: at });
+
+/** Puts a dead letter back in the queue as a fresh task, optionally with edited data. */
+export const resubmitDeadLetter = ({ failedAt: _failedAt, ...task }: DeadLetter, data: Record<string, string> = task.data): SyncTask =>
+  ({ ...task, data, isolated: true, attempts: 0, lastError: undefined, lastAttemptAt: undefined });
@@ -0,0 +1,61 @@
+// The teacher's PIN or passphrase. It is never stored: PBKDF2 turns it into an
+// AES-GCM key that encrypts the settings a student must not see (the backend
+// URL, the QR signing key, the server's teacher token), so unlocking the
+// dashboard is decrypting them.
+
+export const MIN_PIN_LENGTH = 4;
+const PBKDF2_ITERATIONS = 250000;
+
+/** What the settings store keeps: base64 salt, IV and ciphertext. */
+export interface LockedSecrets {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export interface TeacherSecrets {
+  scriptUrl?: string;
+  signingKey?: string;
+  // Bearer token for the self-hosted server's teacher routes.
+  teacherToken?: string;
+}
+
+/** The key derived at login, kept in memory only so settings can be re-encrypted. */
+export interface TeacherLock {
+  key: CryptoKey;
+  salt: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...Array.from(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (pin: string, salt: BufferSource): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+export const createLock = async (pin: string): Promise<TeacherLock> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { key: await deriveKey(pin, salt), salt: toBase64(salt) };
+};
+
+export const sealSecrets = async (lock: TeacherLock, secrets: TeacherSecrets): Promise<LockedSecrets> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, lock.key, encoder.encode(JSON.stringify(secrets)));
+  return { salt: lock.salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/** Null when the PIN is wrong: AES-GCM refuses to decrypt with any other key. */
+export const openSecrets = async (locked: LockedSecrets, pin: string): Promise<{ lock: TeacherLock, secrets: TeacherSecrets } | null> => {
+  const lock = { key: await deriveKey(pin, fromBase64(locked.salt)), salt: locked.salt };
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(locked.iv) }, lock.key, fromBase64(locked.data));
+    return { lock, secrets: JSON.parse(new TextDecoder().decode(data)) };
+  } catch (e) {
+    return null;
+  }
+};
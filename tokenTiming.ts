@@ -0,0 +1,12 @@
+// How long a QR token lives, shared by the app, server/token.ts and the Apps
+// Script (written into it when the script is generated), so every backend
+// accepts and refuses the same tokens.
+
+// A phone only accepts a token this fresh, as the QR rotates this often.
+export const TOKEN_TTL_MS = 60000;
+// How long after it was issued the backends still accept a token, so a
+// check-in saved offline must reach them within this time. Kept short because
+// a shared link works until then.
+export const TOKEN_MAX_AGE_MS = 5 * 60 * 1000;
+// Tolerate phones whose clock runs ahead of the teacher's laptop.
+export const TOKEN_CLOCK_SKEW_MS = 60 * 1000;
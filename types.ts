@@ -1,8 +1,92 @@
 
+export type SessionStatus = 'open' | 'closed';
+
+// P = present, L = late, A = absent, E = excused
+export type AttendanceStatus = 'P' | 'L' | 'A' | 'E';
+
+// 'reject' blocks check-ins from outside the radius; 'flag' accepts them for review.
+export type GeofencePolicy = 'reject' | 'flag';
+
+export interface Geofence {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  policy: GeofencePolicy;
+}
+
+// Where a phone was when it checked in. Accuracy and distance are in metres.
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  distance: number;
+}
+
+export interface Session {
+  id: string;
+  courseCode: string;
+  section: string;
+  week: number;
+  startTime: number;
+  endTime?: number;
+  status: SessionStatus;
+  // Grace period before scans are marked late. Unset or 0 disables late marking.
+  lateAfterMinutes?: number;
+  geofence?: Geofence;
+  // Students must also type the rotating code shown next to the QR.
+  requireCode?: boolean;
+}
+
+// A change that lost a last-writer-wins merge because this device and another
+// one both changed the record (see recordMerge.ts). Kept until reviewed.
+export interface RecordConflict {
+  status: AttendanceStatus;
+  updatedAt: number;
+  // Whose change was overwritten: this device's or the backend's.
+  source: 'local' | 'remote';
+}
+
 export interface Student {
   name: string;
   studentId: string;
   email: string;
   timestamp: number;
-  status: 'P' | 'A';
+  status: AttendanceStatus;
+  sessionId: string;
+  // When the status was last set, by the device that set it. Unset on records
+  // from before versions, which count as last set at `timestamp`.
+  updatedAt?: number;
+  // The backend's `updatedAt` when it was last merged into this copy.
+  baseUpdatedAt?: number;
+  conflict?: RecordConflict;
+  // The phone that submitted the scan, as it reported itself (see deviceIdentity.ts). Unset for teacher entries.
+  deviceId?: string;
+  deviceFingerprint?: string;
+  location?: ScanLocation;
+  // The backend's verdict on a scan outside the session's geofence or without a location.
+  locationFlag?: string;
+}
+
+// What a student's phone adds to a check-in besides the student's details.
+export interface CheckInProof {
+  deviceId?: string;
+  deviceFingerprint?: string;
+  // The device's public key and its signature over the check-in (deviceIdentity.ts).
+  devicePublicKey?: string;
+  deviceSig?: string;
+  location?: ScanLocation;
+  code?: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  name: string;
+}
+
+export interface Roster {
+  id: string;
+  name: string;
+  courseCode: string;
+  students: RosterStudent[];
+  updatedAt: number;
 }
@@ -1,7 +1,43 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { PERMANENT_ERRORS } from './syncQueue'
+
+// public/sw.js is copied as is, so write it again with what only the build
+// knows: the hashed files to precache, and a version that changes with them so
+// a new deploy replaces the old cache. It also gets the app's list of
+// permanent sync errors, so the two cannot drift apart.
+const serviceWorker = (): Plugin => {
+  let publicDir = ''
+  return {
+    name: 'attendance-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter(name => !name.endsWith('.html') && !name.endsWith('.map')).sort()
+      const values: Record<string, string> = {
+        BUILD_VERSION: JSON.stringify(createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)),
+        BUILD_FILES: JSON.stringify(files.map(name => `./${name}`)),
+        PERMANENT_ERRORS: `[${PERMANENT_ERRORS.map(String).join(', ')}]`,
+      }
+      let source = readFileSync(resolve(publicDir, 'sw.js'), 'utf8')
+      for (const [name, value] of Object.entries(values)) {
+        const placeholder = new RegExp(`^const ${name} = .*;$`, 'm')
+        if (!placeholder.test(source)) this.error(`public/sw.js has no ${name} to fill in`)
+        source = source.replace(placeholder, () => `const ${name} = ${value};`)
+      }
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-})
\ No newline at end of file
+  plugins: [react(), serviceWorker()],
+})